@@ -22,16 +22,23 @@ export default defineConfig({
               { text: 'Getting Started', link: '/services/requests/getting-started' },
               { text: 'Loading', link: '/services/requests/loading' },
               { text: 'Drivers', link: '/services/requests/drivers' },
+              { text: 'URLs', link: '/services/requests/urls' },
               { text: 'Responses', link: '/services/requests/responses' },
               { text: 'Request Bodies', link: '/services/requests/request-bodies' },
               { text: 'File Uploads', link: '/services/requests/file-uploads' },
               { text: 'Headers', link: '/services/requests/headers' },
+              { text: 'Interceptors', link: '/services/requests/interceptors' },
+              { text: 'Authentication', link: '/services/requests/authentication' },
               { text: 'Concurrency', link: '/services/requests/concurrency' },
               { text: 'Aborting Requests', link: '/services/requests/abort-requests' },
+              { text: 'Retries', link: '/services/requests/retries' },
+              { text: 'Caching', link: '/services/requests/caching' },
+              { text: 'Scheduling', link: '/services/requests/scheduling' },
               { text: 'Events', link: '/services/requests/events' },
               { text: 'Bulk Requests', link: '/services/requests/bulk-requests' },
               { text: 'Error Handling', link: '/services/requests/error-handling' },
-              { text: 'Testing', link: '/services/requests/testing' }
+              { text: 'Testing', link: '/services/requests/testing' },
+              { text: 'Fake Server', link: '/services/requests/fake-server' }
             ]
           },
           {
@@ -1,5 +1,6 @@
 import { BulkRequestWrapper } from './BulkRequestWrapper'
 import { BulkRequestEventEnum } from './BulkRequestEvent.enum'
+import { RequestScheduler } from '../requests/RequestScheduler'
 
 export enum BulkRequestExecutionMode {
   PARALLEL = 'parallel',
@@ -17,6 +18,8 @@ export class BulkRequestSender<
     ((req: BulkRequestWrapper<RequestLoaderLoadingType, RequestBodyInterface, ResponseClass, RequestParamsInterface>) => void)[]
   > = new Map()
   protected abortController: AbortController | undefined = undefined
+  protected maxConcurrency: number | undefined = undefined
+  protected scheduler: RequestScheduler | undefined = undefined
 
   public constructor(
     protected requests: BulkRequestWrapper<RequestLoaderLoadingType, RequestBodyInterface, ResponseClass, RequestParamsInterface>[] = [],
@@ -42,6 +45,12 @@ export class BulkRequestSender<
     return this
   }
 
+  public setMaxConcurrency(limit?: number): this {
+    this.maxConcurrency = limit
+
+    return this
+  }
+
   public get isLoading(): boolean {
     return this.requests.some((req) => Boolean(req.isLoading() as unknown))
   }
@@ -84,6 +93,7 @@ export class BulkRequestSender<
 
   public async send() {
     this.abortController = new AbortController()
+    this.scheduler = this.maxConcurrency === undefined ? undefined : new RequestScheduler({ maxConcurrent: this.maxConcurrency })
 
     try {
       if (this.executionMode === BulkRequestExecutionMode.PARALLEL) {
@@ -112,7 +122,7 @@ export class BulkRequestSender<
     // First attempt for all requests
     await Promise.all(
       this.requests.map((req) =>
-        req.send(this.abortController?.signal).then(() => {
+        this.sendLimited(req).then(() => {
           if (!req.hasError()) {
             this.emit(BulkRequestEventEnum.REQUEST_SUCCESSFUL, req)
           }
@@ -133,7 +143,7 @@ export class BulkRequestSender<
 
       await Promise.all(
         failedRequests.map((req) =>
-          req.send(this.abortController?.signal).then(() => {
+          this.sendLimited(req).then(() => {
             if (!req.hasError()) {
               // Success after retry
               this.emit(BulkRequestEventEnum.REQUEST_SUCCESSFUL, req)
@@ -153,6 +163,22 @@ export class BulkRequestSender<
       })
   }
 
+  protected async sendLimited(req: BulkRequestWrapper<RequestLoaderLoadingType, RequestBodyInterface, ResponseClass, RequestParamsInterface>) {
+    const signal = this.abortController?.signal
+
+    if (this.scheduler === undefined) {
+      await req.send(signal)
+      return
+    }
+
+    // Queued requests are dropped when the bulk operation is aborted, so they never reach the driver.
+    try {
+      await this.scheduler.schedule(() => req.send(signal), { signal })
+    } catch (error) {
+      req.setError(error)
+    }
+  }
+
   protected async sendSequential() {
     // First attempt for all requests
     for (const req of this.requests) {
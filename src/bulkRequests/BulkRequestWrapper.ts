@@ -23,6 +23,14 @@ export class BulkRequestWrapper<RequestLoaderLoadingType, RequestBodyInterface,
     this.sent = true
   }
 
+  // Records a failure for a request that never reached its driver, for example one dropped from the queue on abort.
+  public setError(error: unknown): this {
+    this.response = null
+    this.error = error
+
+    return this
+  }
+
   public isLoading(): RequestLoaderLoadingType {
     return this.request.isLoading()
   }
@@ -0,0 +1,101 @@
+import { getCookie } from '../../support/helpers'
+import { RequestMethodEnum } from '../../requests/RequestMethod.enum'
+import { ResponseException } from '../../requests/exceptions/ResponseException'
+import { RequestAbortedException } from '../../requests/exceptions/RequestAbortedException'
+import {
+  type RequestInterceptorContext,
+  type RequestInterceptorContract,
+  type RequestInterceptorNext
+} from '../../requests/contracts/RequestInterceptorContract'
+import { type ResponseHandlerContract } from '../../requests/drivers/contracts/ResponseHandlerContract'
+import { type SanctumCsrfOptions } from './types/SanctumCsrfOptions'
+
+/**
+ * Sends Laravel's XSRF-TOKEN cookie as X-XSRF-TOKEN header on mutating
+ * requests and refreshes the cookie when the token has expired (419).
+ */
+export class SanctumCsrfInterceptor implements RequestInterceptorContract {
+  protected fetchingCookie: Promise<void> | undefined = undefined
+
+  public constructor(protected options: SanctumCsrfOptions = {}) {}
+
+  public async intercept(context: RequestInterceptorContext, next: RequestInterceptorNext): Promise<ResponseHandlerContract> {
+    if ([RequestMethodEnum.GET, RequestMethodEnum.HEAD].includes(context.method)) {
+      return await next(context)
+    }
+
+    if (this.readToken() === '') {
+      await this.fetchCsrfCookie(context, next)
+    }
+
+    try {
+      return await next(this.withToken(context))
+    } catch (error) {
+      if (!(error instanceof ResponseException) || error.getResponse().getStatusCode() !== 419) {
+        throw error
+      }
+
+      await this.fetchCsrfCookie(context, next)
+
+      return await next(this.withToken(context))
+    }
+  }
+
+  protected async fetchCsrfCookie(context: RequestInterceptorContext, next: RequestInterceptorNext): Promise<void> {
+    // Requests failing at the same time share one cookie request, which none of them can cancel for the others.
+    this.fetchingCookie ??= next({
+      ...context,
+      url: new URL(this.options.csrfCookieUrl ?? '/sanctum/csrf-cookie', context.url),
+      method: RequestMethodEnum.GET,
+      headers: { Accept: 'application/json' },
+      body: undefined,
+      config: { ...context.config, abortSignal: undefined, onUploadProgress: undefined, onDownloadProgress: undefined }
+    })
+      .then(() => undefined)
+      .finally(() => {
+        this.fetchingCookie = undefined
+      })
+
+    await this.waitForCookie(this.fetchingCookie, context.config.abortSignal)
+  }
+
+  protected waitForCookie(fetchingCookie: Promise<void>, abortSignal: AbortSignal | undefined): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (abortSignal?.aborted) {
+        reject(new RequestAbortedException())
+        return
+      }
+
+      const handleAbort = () => reject(new RequestAbortedException())
+
+      abortSignal?.addEventListener('abort', handleAbort, { once: true })
+
+      fetchingCookie.then(
+        () => {
+          abortSignal?.removeEventListener('abort', handleAbort)
+          resolve()
+        },
+        (error) => {
+          abortSignal?.removeEventListener('abort', handleAbort)
+          reject(error)
+        }
+      )
+    })
+  }
+
+  protected withToken(context: RequestInterceptorContext): RequestInterceptorContext {
+    return {
+      ...context,
+      headers: {
+        ...context.headers,
+        [this.options.headerName ?? 'X-XSRF-TOKEN']: () => this.readToken()
+      }
+    }
+  }
+
+  protected readToken(): string {
+    const name = this.options.cookieName ?? 'XSRF-TOKEN'
+
+    return this.options.getCookie?.(name) ?? getCookie(name)
+  }
+}
@@ -2,8 +2,10 @@ import { JsonResponse } from './responses/JsonResponse'
 import { PaginationResponse } from './responses/PaginationResponse'
 import { JsonBaseRequest } from './JsonBaseRequest'
 import { PaginationJsonBaseRequest } from './PaginationJsonBaseRequest'
+import { SanctumCsrfInterceptor } from './SanctumCsrfInterceptor'
 import { type JsonResponseInterface } from './JsonBaseRequest'
+import { type SanctumCsrfOptions } from './types/SanctumCsrfOptions'
 
-export { JsonResponse, PaginationResponse, JsonBaseRequest, PaginationJsonBaseRequest }
+export { JsonResponse, PaginationResponse, JsonBaseRequest, PaginationJsonBaseRequest, SanctumCsrfInterceptor }
 
-export type { JsonResponseInterface }
+export type { JsonResponseInterface, SanctumCsrfOptions }
@@ -1,8 +1,21 @@
 import { JsonResponse as ParentJsonResponse } from '../../../requests/responses/JsonResponse'
+import { applyResponseTransformer } from '../../../requests/transformers/applyResponseTransformer'
+import { type ResponseTransformer } from '../../../requests/contracts/ResponseTransformerContract'
 import { type JsonResponseInterface } from '../JsonBaseRequest'
 
 export class JsonResponse<ResourceInterface> extends ParentJsonResponse<JsonResponseInterface<ResourceInterface>> {
   public getData(): ResourceInterface {
     return this.getBody().data
   }
+
+  // Transforms the resource in the "data" key while keeping the rest of the body.
+  public transformData<Output>(transformer: ResponseTransformer<ResourceInterface, Output>): JsonResponse<Output> {
+    this.transformers.push(async (body) => {
+      const envelope = body as JsonResponseInterface<ResourceInterface>
+
+      return { ...envelope, data: await applyResponseTransformer(transformer, envelope.data) }
+    })
+
+    return this as unknown as JsonResponse<Output>
+  }
 }
@@ -1,4 +1,6 @@
 import { JsonResponse } from '../../../requests/responses/JsonResponse'
+import { applyResponseTransformer } from '../../../requests/transformers/applyResponseTransformer'
+import { type ResponseTransformer } from '../../../requests/contracts/ResponseTransformerContract'
 import { type PaginationResponseBodyContract } from '../../pagination/contracts/PaginationResponseBodyContract'
 import { type PaginationResponseContract } from '../../../pagination/contracts/PaginationResponseContract'
 
@@ -13,4 +15,15 @@ export class PaginationResponse<ResourceInterface>
   public getData(): ResourceInterface {
     return this.getBody().data
   }
+
+  // Transforms the "data" key while keeping the pagination meta.
+  public transformData<Output>(transformer: ResponseTransformer<ResourceInterface, Output>): PaginationResponse<Output> {
+    this.transformers.push(async (body) => {
+      const page = body as PaginationResponseBodyContract<ResourceInterface>
+
+      return { ...page, data: await applyResponseTransformer(transformer, page.data) }
+    })
+
+    return this as unknown as PaginationResponse<Output>
+  }
 }
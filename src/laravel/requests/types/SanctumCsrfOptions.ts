@@ -0,0 +1,6 @@
+export type SanctumCsrfOptions = {
+  csrfCookieUrl?: string
+  cookieName?: string
+  headerName?: string
+  getCookie?: (name: string) => string
+}
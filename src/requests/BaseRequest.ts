@@ -3,8 +3,13 @@ import { ErrorHandler } from './ErrorHandler'
 import { RequestEvents } from './RequestEvents.enum'
 import { RequestMethodEnum } from './RequestMethod.enum'
 import { BaseResponse } from './responses/BaseResponse'
+import { StreamResponse } from './responses/StreamResponse'
 import { ResponseException } from './exceptions/ResponseException'
 import { StaleResponseException } from './exceptions/StaleResponseException'
+import { NetworkException } from './exceptions/NetworkException'
+import { RequestAbortedException } from './exceptions/RequestAbortedException'
+import { TimeoutException } from './exceptions/TimeoutException'
+import { FetchResponse } from './drivers/fetch/FetchResponse'
 import { type DriverConfigContract } from './contracts/DriverConfigContract'
 import { type BodyFactoryContract } from './contracts/BodyFactoryContract'
 import { type BodyContract } from './contracts/BodyContract'
@@ -13,14 +18,26 @@ import { type RequestDriverContract } from './contracts/RequestDriverContract'
 import { type RequestLoaderFactoryContract } from './contracts/RequestLoaderFactoryContract'
 import { type BaseRequestContract, type EventHandlerCallback, type SendRequestOptions } from './contracts/BaseRequestContract'
 import { type HeadersContract } from './contracts/HeadersContract'
+import { type RequestInterceptorContext, type RequestInterceptorContract, type RequestInterceptorNext } from './contracts/RequestInterceptorContract'
 import { type ResponseHandlerContract } from './drivers/contracts/ResponseHandlerContract'
 import { type ResponseContract } from './contracts/ResponseContract'
 import { type RequestConcurrencyOptions } from './types/RequestConcurrencyOptions'
 import { type RequestUploadProgress } from './types/RequestUploadProgress'
+import { type RequestDownloadProgress } from './types/RequestDownloadProgress'
+import { type RequestRetryOptions } from './types/RequestRetryOptions'
+import { type RequestQueryOptions } from './types/RequestQueryOptions'
+import { type ResponseExceptionMapping } from './types/ResponseExceptionMapping'
 import { RequestConcurrencyMode } from './RequestConcurrencyMode.enum'
+import { RequestRetryPolicy } from './RequestRetryPolicy'
 import { mergeDeep } from '../support/helpers'
 import { v4 as uuidv4 } from 'uuid'
 
+interface DedupedDriverCall {
+  promise: Promise<ResponseHandlerContract>
+  controller: AbortController
+  subscribers: Set<DriverConfigContract>
+}
+
 export abstract class BaseRequest<
   RequestLoaderLoadingType,
   ResponseErrorBody,
@@ -35,18 +52,27 @@ export abstract class BaseRequest<
   protected requestLoader: RequestLoaderContract<RequestLoaderLoadingType> | undefined = undefined
   protected abortSignal: AbortSignal | undefined = undefined
   protected concurrencyOptions: RequestConcurrencyOptions | undefined = undefined
+  protected retryOptions: RequestRetryOptions | undefined = undefined
+  protected queryOptions: RequestQueryOptions | undefined = undefined
+  protected timeout: number | undefined = undefined
+  protected priority: number | undefined = undefined
   protected additionalHeaders: HeadersContract = {}
   protected instanceRequestDriver: RequestDriverContract | undefined = undefined
+  protected instanceInterceptors: RequestInterceptorContract[] = []
   /* @ts-expect-error Ignore generics */
   protected events: { [key in RequestEvents]?: EventHandlerCallback[] } = {}
 
   protected static defaultBaseUrl: string
+  protected static defaultRetryOptions: RequestRetryOptions | undefined = undefined
+  protected static defaultQueryOptions: RequestQueryOptions | undefined = undefined
 
   protected static requestDriver: RequestDriverContract
   protected static requestLoaderFactory: RequestLoaderFactoryContract<unknown>
+  protected static interceptors: RequestInterceptorContract[] = []
   protected static concurrencySequenceByKey: Map<string, number> = new Map()
   protected static concurrencyAbortControllerByKey: Map<string, AbortController> = new Map()
   protected static concurrencyInFlightByKey: Map<string, number> = new Map()
+  protected static dedupeInFlightByKey: Map<string, DedupedDriverCall> = new Map()
 
   public constructor() {
     if (BaseRequest.requestLoaderFactory !== undefined) {
@@ -66,6 +92,26 @@ export abstract class BaseRequest<
     this.defaultBaseUrl = url
   }
 
+  public static setDefaultRetry(options?: RequestRetryOptions) {
+    this.defaultRetryOptions = options
+  }
+
+  public static setDefaultQueryOptions(options?: RequestQueryOptions) {
+    this.defaultQueryOptions = options
+  }
+
+  public static addInterceptor(interceptor: RequestInterceptorContract): void {
+    BaseRequest.interceptors.push(interceptor)
+  }
+
+  public static removeInterceptor(interceptor: RequestInterceptorContract): void {
+    BaseRequest.interceptors = BaseRequest.interceptors.filter((registered) => registered !== interceptor)
+  }
+
+  public static clearInterceptors(): void {
+    BaseRequest.interceptors = []
+  }
+
   public setRequestLoader(loader: RequestLoaderContract<RequestLoaderLoadingType>): this {
     this.requestLoader = loader
 
@@ -78,12 +124,40 @@ export abstract class BaseRequest<
     return this
   }
 
+  public setRetry(options?: RequestRetryOptions): this {
+    this.retryOptions = options
+
+    return this
+  }
+
+  public setTimeout(timeout?: number): this {
+    this.timeout = timeout
+
+    return this
+  }
+
+  public setPriority(priority?: number): this {
+    this.priority = priority
+
+    return this
+  }
+
+  public getPriority(): number {
+    return this.priority ?? 0
+  }
+
   public setRequestDriver(driver: RequestDriverContract): this {
     this.instanceRequestDriver = driver
 
     return this
   }
 
+  public addInterceptor(interceptor: RequestInterceptorContract): this {
+    this.instanceInterceptors.push(interceptor)
+
+    return this
+  }
+
   public getRequestId(): string {
     return this.requestId
   }
@@ -131,11 +205,62 @@ export abstract class BaseRequest<
     return {}
   }
 
+  public setQueryOptions(options?: RequestQueryOptions): this {
+    this.queryOptions = options
+
+    return this
+  }
+
   public buildUrl(): URL {
-    const hasParams = this.params !== undefined && Object.keys(this.params).length > 0
-    const url = hasParams ? this.url() + '?' + qs.stringify(this.params) : this.url()
+    const url = this.url().toString()
+    const base = this.baseUrl() ?? BaseRequest.defaultBaseUrl
+
+    if (this.params === undefined || Object.keys(this.params).length === 0) {
+      return new URL(url, base)
+    }
+
+    const hashIndex = url.indexOf('#')
+    const hash = hashIndex === -1 ? '' : url.slice(hashIndex)
+    const withoutHash = hashIndex === -1 ? url : url.slice(0, hashIndex)
+    const queryIndex = withoutHash.indexOf('?')
+    const path = queryIndex === -1 ? withoutHash : withoutHash.slice(0, queryIndex)
+    const query = queryIndex === -1 ? undefined : withoutHash.slice(queryIndex + 1)
+
+    const search = [this.retainQuery(query, Object.keys(this.params)), this.stringifyQuery(this.params)].filter((part) => part !== '').join('&')
+
+    return new URL(path + (search === '' ? '' : '?' + search) + hash, base)
+  }
 
-    return new URL(url, this.baseUrl() ?? BaseRequest.defaultBaseUrl)
+  protected stringifyQuery(params: RequestParamsInterface): string {
+    return qs.stringify(params, { ...BaseRequest.defaultQueryOptions, ...this.getQueryOptions(), ...this.queryOptions })
+  }
+
+  protected retainQuery(query: string | undefined, overriddenKeys: string[]): string {
+    if (query === undefined) {
+      return ''
+    }
+
+    // The query written in url() is kept as-is; only the keys that params sets are replaced.
+    return query
+      .split('&')
+      .filter((part) => part !== '' && !overriddenKeys.includes(this.queryKeyRoot(part)))
+      .join('&')
+  }
+
+  protected queryKeyRoot(part: string): string {
+    const separatorIndex = part.indexOf('=')
+    const rawKey = (separatorIndex === -1 ? part : part.slice(0, separatorIndex)).replace(/\+/g, ' ')
+    let key: string
+
+    try {
+      key = decodeURIComponent(rawKey)
+    } catch {
+      key = rawKey
+    }
+
+    const bracketIndex = key.indexOf('[')
+
+    return bracketIndex > 0 ? key.slice(0, bracketIndex) : key
   }
 
   public on<T>(event: RequestEvents, handler: EventHandlerCallback<T>): this {
@@ -187,63 +312,92 @@ export abstract class BaseRequest<
     const requestBody = this.requestBody === undefined ? undefined : this.getRequestBodyFactory()?.make(this.requestBody)
     const requestConfig = this.buildRequestConfig(requestBody, concurrencyKey, sequence, useLatest)
 
-    const responseHandler = await this.resolveRequestDriver()
-      .send(
-        this.buildUrl(),
-        this.method(),
-        {
-          Accept: acceptHeader,
-          ...this.requestHeaders(),
-          ...this.additionalHeaders
-        },
-        requestBody,
-        requestConfig
-      )
-      .then(async (driverResponseHandler: ResponseHandlerContract) => {
-        if (useLatest && !this.isLatestSequence(concurrencyKey, sequence)) {
-          throw new StaleResponseException()
-        }
+    const context: RequestInterceptorContext = {
+      request: this,
+      url: this.buildUrl(),
+      method: this.method(),
+      headers: {
+        Accept: acceptHeader,
+        ...this.requestHeaders(),
+        ...this.additionalHeaders
+      },
+      body: requestBody,
+      config: requestConfig
+    }
 
-        if ((driverResponseHandler.getStatusCode() ?? 0) >= 400) {
-          const handler = new ErrorHandler<ResponseErrorBody>(driverResponseHandler)
-          await handler.handle()
-        }
+    // While another attempt may follow, errors are mapped without the global ErrorHandler callback.
+    const attempt = (deferGlobalHandler: boolean): Promise<ResponseHandlerContract> =>
+      this.runInterceptors({ ...context, headers: { ...context.headers } })
+        .then(async (driverResponseHandler: ResponseHandlerContract) => {
+          if (useLatest && !this.isLatestSequence(concurrencyKey, sequence)) {
+            throw new StaleResponseException()
+          }
+
+          if ((driverResponseHandler.getStatusCode() ?? 0) >= 400) {
+            const handler = new ErrorHandler<ResponseErrorBody>(driverResponseHandler, this.getResponseExceptions())
+            await handler.handle(!deferGlobalHandler)
+          }
+
+          return driverResponseHandler
+        })
+        .catch(async (error) => {
+          if (useLatest && !this.isLatestSequence(concurrencyKey, sequence)) {
+            throw new StaleResponseException('Stale response ignored', error)
+          }
+
+          if (error instanceof StaleResponseException) {
+            throw error
+          }
+
+          if (error instanceof ResponseException) {
+            const handler = new ErrorHandler<ResponseErrorBody>(error.getResponse(), this.getResponseExceptions())
+            await handler.handle(!deferGlobalHandler)
+          }
+
+          // Transport failures are expected at runtime and are left to the caller.
+          if (!(error instanceof NetworkException || error instanceof RequestAbortedException || error instanceof TimeoutException)) {
+            console.error('@blueprint-ts/core: Unknown error received.', error)
+          }
 
-        return driverResponseHandler
-      })
-      .catch(async (error) => {
-        if (useLatest && !this.isLatestSequence(concurrencyKey, sequence)) {
-          throw new StaleResponseException('Stale response ignored', error)
-        }
-
-        if (error instanceof StaleResponseException) {
           throw error
-        }
+        })
 
-        if (error instanceof ResponseException) {
-          const handler = new ErrorHandler<ResponseErrorBody>(error.getResponse())
-          await handler.handle()
-        }
+    const settle = () => {
+      const isStale = useLatest && !this.isLatestSequence(concurrencyKey, sequence)
 
-        console.error('@blueprint-ts/core: Unknown error received.', error)
+      if (!isStale) {
+        this.dispatch<boolean>(RequestEvents.LOADING, false)
+        this.requestLoader?.setLoading(false)
+      }
 
-        throw error
-      })
-      .finally(() => {
-        const isStale = useLatest && !this.isLatestSequence(concurrencyKey, sequence)
+      this.decrementConcurrencyInFlight(concurrencyKey)
+    }
 
-        if (!isStale) {
-          this.dispatch<boolean>(RequestEvents.LOADING, false)
-          this.requestLoader?.setLoading(false)
-        }
+    let responseHandler: ResponseHandlerContract
 
-        this.decrementConcurrencyInFlight(concurrencyKey)
-      })
+    try {
+      responseHandler = await this.withRetry(attempt, requestConfig.abortSignal, concurrencyKey, sequence, useLatest)
+    } catch (error) {
+      settle()
+      throw error
+    }
 
     if (options.resolveBody === false) {
+      settle()
       return responseHandler
     }
 
+    // Streamed bodies keep the request loading until they are fully consumed or cancelled.
+    if (responseSkeleton instanceof StreamResponse) {
+      responseSkeleton.setLifecycle({
+        abortSignal: requestConfig.abortSignal,
+        isStale: () => useLatest && !this.isLatestSequence(concurrencyKey, sequence),
+        onSettled: settle
+      })
+    } else {
+      settle()
+    }
+
     await responseSkeleton.setResponse(responseHandler)
 
     return responseSkeleton
@@ -269,6 +423,67 @@ export abstract class BaseRequest<
     return this
   }
 
+  protected async withRetry(
+    attempt: (deferGlobalHandler: boolean) => Promise<ResponseHandlerContract>,
+    abortSignal: AbortSignal | undefined,
+    concurrencyKey: string,
+    sequence: number,
+    useLatest: boolean
+  ): Promise<ResponseHandlerContract> {
+    const policy = this.resolveRetryPolicy()
+    const method = this.method()
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      const deferGlobalHandler = policy !== undefined && policy.canRetry(attemptNumber, method)
+
+      try {
+        return await attempt(deferGlobalHandler)
+      } catch (error) {
+        if (policy === undefined || !policy.shouldRetry(error, attemptNumber, method)) {
+          // The request gave up, so the global ErrorHandler callback sees the failure exactly once.
+          if (deferGlobalHandler && error instanceof ResponseException) {
+            ErrorHandler.runHandler(error.getResponse())
+          }
+
+          throw error
+        }
+
+        await policy.wait(policy.getDelay(error, attemptNumber), abortSignal)
+
+        // A newer LATEST request may have been sent while we were backing off.
+        if (useLatest && !this.isLatestSequence(concurrencyKey, sequence)) {
+          throw new StaleResponseException('Stale response ignored', error)
+        }
+      }
+    }
+  }
+
+  protected resolveRetryPolicy(): RequestRetryPolicy | undefined {
+    const classOptions = this.getRetryOptions()
+
+    if (BaseRequest.defaultRetryOptions === undefined && classOptions === undefined && this.retryOptions === undefined) {
+      return undefined
+    }
+
+    return new RequestRetryPolicy({
+      ...BaseRequest.defaultRetryOptions,
+      ...classOptions,
+      ...this.retryOptions
+    })
+  }
+
+  protected getRetryOptions(): RequestRetryOptions | undefined {
+    return undefined
+  }
+
+  protected getQueryOptions(): RequestQueryOptions | undefined {
+    return undefined
+  }
+
+  protected getResponseExceptions(): ResponseExceptionMapping<ResponseErrorBody>[] {
+    return []
+  }
+
   protected bumpConcurrencySequence(key: string): number {
     const next = (BaseRequest.concurrencySequenceByKey.get(key) ?? 0) + 1
     BaseRequest.concurrencySequenceByKey.set(key, next)
@@ -316,29 +531,180 @@ export abstract class BaseRequest<
   ): DriverConfigContract {
     const config = this.getConfig() ?? {}
     const onUploadProgress = config.onUploadProgress
+    const onDownloadProgress = config.onDownloadProgress
 
-    if (requestBody === undefined) {
-      return config
-    }
+    // Download tracking makes drivers re-stream the response body, so only opt in when someone is listening.
+    const tracksDownload = onDownloadProgress !== undefined || (this.events[RequestEvents.DOWNLOAD_PROGRESS]?.length ?? 0) > 0
 
     return {
       ...config,
-      onUploadProgress: (progress: RequestUploadProgress) => {
-        onUploadProgress?.(progress)
+      ...(requestBody !== undefined
+        ? {
+            onUploadProgress: (progress: RequestUploadProgress) => {
+              onUploadProgress?.(progress)
+
+              if (useLatest && !this.isLatestSequence(concurrencyKey, sequence)) {
+                return
+              }
+
+              this.dispatch<RequestUploadProgress>(RequestEvents.UPLOAD_PROGRESS, progress)
+            }
+          }
+        : {}),
+      ...(tracksDownload
+        ? {
+            onDownloadProgress: (progress: RequestDownloadProgress) => {
+              onDownloadProgress?.(progress)
+
+              if (useLatest && !this.isLatestSequence(concurrencyKey, sequence)) {
+                return
+              }
+
+              this.dispatch<RequestDownloadProgress>(RequestEvents.DOWNLOAD_PROGRESS, progress)
+            }
+          }
+        : {})
+    }
+  }
 
-        if (useLatest && !this.isLatestSequence(concurrencyKey, sequence)) {
-          return
-        }
+  protected getConfig(): DriverConfigContract | undefined {
+    return {
+      abortSignal: this.abortSignal,
+      ...(this.timeout !== undefined ? { timeout: this.timeout } : {})
+    }
+  }
 
-        this.dispatch<RequestUploadProgress>(RequestEvents.UPLOAD_PROGRESS, progress)
+  protected async runInterceptors(context: RequestInterceptorContext): Promise<ResponseHandlerContract> {
+    const interceptors = [...BaseRequest.interceptors, ...this.getInterceptors(), ...this.instanceInterceptors]
+
+    const dispatch = (index: number): RequestInterceptorNext => {
+      const interceptor = interceptors[index]
+
+      if (interceptor === undefined) {
+        return async (current: RequestInterceptorContext) =>
+          this.concurrencyOptions?.mode === RequestConcurrencyMode.DEDUPE
+            ? await this.sendDeduplicated(current)
+            : await this.resolveRequestDriver().send(current.url, current.method, current.headers, current.body, current.config)
       }
+
+      return async (current: RequestInterceptorContext) => await interceptor.intercept(current, dispatch(index + 1))
     }
+
+    return await dispatch(0)(context)
   }
 
-  protected getConfig(): DriverConfigContract | undefined {
-    return {
-      abortSignal: this.abortSignal
+  protected getInterceptors(): RequestInterceptorContract[] {
+    return []
+  }
+
+  protected async sendDeduplicated(context: RequestInterceptorContext): Promise<ResponseHandlerContract> {
+    const key = this.buildDedupeKey(context)
+
+    if (key === undefined) {
+      return await this.resolveRequestDriver().send(context.url, context.method, context.headers, context.body, context.config)
     }
+
+    let call = BaseRequest.dedupeInFlightByKey.get(key)
+
+    if (call === undefined) {
+      // The shared call owns its abort controller, so one caller aborting does not cancel it for the others.
+      const controller = new AbortController()
+      const subscribers = new Set<DriverConfigContract>()
+      // Progress is fanned out to every caller. Download progress is always tracked, since later callers may listen for it.
+      const promise = this.resolveRequestDriver().send(context.url, context.method, context.headers, context.body, {
+        ...context.config,
+        abortSignal: controller.signal,
+        ...(context.config.onUploadProgress !== undefined
+          ? { onUploadProgress: (progress: RequestUploadProgress) => subscribers.forEach((config) => config.onUploadProgress?.(progress)) }
+          : {}),
+        onDownloadProgress: (progress: RequestDownloadProgress) => subscribers.forEach((config) => config.onDownloadProgress?.(progress))
+      })
+      const created: DedupedDriverCall = { promise, controller, subscribers }
+      const release = () => {
+        if (BaseRequest.dedupeInFlightByKey.get(key) === created) {
+          BaseRequest.dedupeInFlightByKey.delete(key)
+        }
+      }
+
+      promise.then(release, release)
+      BaseRequest.dedupeInFlightByKey.set(key, created)
+      call = created
+    }
+
+    return await this.subscribeToDedupedCall(key, call, context.config)
+  }
+
+  protected subscribeToDedupedCall(key: string, call: DedupedDriverCall, config: DriverConfigContract): Promise<ResponseHandlerContract> {
+    const abortSignal = config.abortSignal
+
+    call.subscribers.add(config)
+
+    return new Promise<ResponseHandlerContract>((resolve, reject) => {
+      const handleAbort = () => {
+        call.subscribers.delete(config)
+
+        if (call.subscribers.size === 0) {
+          call.controller.abort()
+
+          if (BaseRequest.dedupeInFlightByKey.get(key) === call) {
+            BaseRequest.dedupeInFlightByKey.delete(key)
+          }
+        }
+
+        reject(new RequestAbortedException())
+      }
+
+      if (abortSignal?.aborted) {
+        handleAbort()
+        return
+      }
+
+      abortSignal?.addEventListener('abort', handleAbort, { once: true })
+
+      // Every caller gets its own copy of the response, so each one can consume the body independently.
+      call.promise.then(
+        (responseHandler) => {
+          abortSignal?.removeEventListener('abort', handleAbort)
+          resolve(this.cloneResponseHandler(responseHandler))
+        },
+        (error) => {
+          abortSignal?.removeEventListener('abort', handleAbort)
+          reject(error instanceof ResponseException ? new ResponseException(this.cloneResponseHandler(error.getResponse())) : error)
+        }
+      )
+    })
+  }
+
+  protected buildDedupeKey(context: RequestInterceptorContext): string | undefined {
+    if (this.concurrencyOptions?.key !== undefined) {
+      return this.concurrencyOptions.key
+    }
+
+    const content = context.body?.getContent()
+
+    // Only bodies we can fingerprint synchronously are deduplicated; FormData and binary uploads always go out.
+    if (content !== undefined && typeof content !== 'string') {
+      return undefined
+    }
+
+    // Resolved headers and the full body are part of the key, so requests with different credentials or payloads never share a response.
+    return JSON.stringify([context.method, context.url.toString(), this.resolveDedupeHeaders(context), content ?? ''])
+  }
+
+  protected resolveDedupeHeaders(context: RequestInterceptorContext): string[][] {
+    const headers: HeadersContract = { ...context.headers, ...context.body?.getHeaders() }
+
+    return Object.keys(headers)
+      .map((key) => {
+        const value = headers[key]
+
+        return [key.toLowerCase(), typeof value === 'function' ? value() : (value ?? '')]
+      })
+      .sort(([first = ''], [second = '']) => (first < second ? -1 : first > second ? 1 : 0))
+  }
+
+  protected cloneResponseHandler(responseHandler: ResponseHandlerContract): ResponseHandlerContract {
+    return responseHandler.clone?.() ?? new FetchResponse(responseHandler.getRawResponse().clone())
   }
 
   protected resolveRequestDriver(): RequestDriverContract {
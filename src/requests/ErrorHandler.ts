@@ -2,7 +2,7 @@ import { PageExpiredException } from './exceptions/PageExpiredException'
 import { NotFoundException } from './exceptions/NotFoundException'
 import { UnauthorizedException } from './exceptions/UnauthorizedException'
 import { ValidationException } from './exceptions/ValidationException'
-import { ResponseException } from './exceptions/ResponseException'
+import { ResponseBodyException } from './exceptions/ResponseBodyException'
 import { NoResponseReceivedException } from './exceptions/NoResponseReceivedException'
 import { ServerErrorException } from './exceptions/ServerErrorException'
 import { type ResponseHandlerContract } from './drivers/contracts/ResponseHandlerContract'
@@ -22,123 +22,158 @@ import { BadGatewayException } from './exceptions/BadGatewayException'
 import { GatewayTimeoutException } from './exceptions/GatewayTimeoutException'
 import { BadRequestException } from './exceptions/BadRequestException'
 import { InvalidJsonException } from './exceptions/InvalidJsonException'
+import { type ResponseExceptionConstructor, type ResponseExceptionMapping } from './types/ResponseExceptionMapping'
 
 export type ErrorHandlerCallback = ((response: ResponseHandlerContract) => boolean | void) | undefined
 
 export class ErrorHandler<ResponseErrorBody> {
   protected body: ResponseErrorBody | undefined = undefined
+  protected rawBody: string | undefined = undefined
   protected static handler: ErrorHandlerCallback = undefined
+  protected static exceptions: ResponseExceptionMapping<unknown>[] = []
+  protected static statusExceptions: Record<number, ResponseExceptionConstructor> = {
+    400: BadRequestException,
+    401: UnauthorizedException,
+    403: ForbiddenException,
+    404: NotFoundException,
+    405: MethodNotAllowedException,
+    408: RequestTimeoutException,
+    409: ConflictException,
+    410: GoneException,
+    412: PreconditionFailedException,
+    413: PayloadTooLargeException,
+    415: UnsupportedMediaTypeException,
+    419: PageExpiredException,
+    422: ValidationException,
+    423: LockedException,
+    429: TooManyRequestsException,
+    500: ServerErrorException,
+    501: NotImplementedException,
+    502: BadGatewayException,
+    503: ServiceUnavailableException,
+    504: GatewayTimeoutException
+  }
 
-  public constructor(protected response: ResponseHandlerContract) {}
+  public constructor(
+    protected response: ResponseHandlerContract,
+    protected exceptions: ResponseExceptionMapping<ResponseErrorBody>[] = []
+  ) {}
 
-  public async handle() {
-    // Check if there is a global error handler set
-    if (ErrorHandler.handler !== undefined) {
-      // If handler returns false, we don't process the error further
-      if (ErrorHandler.handler(this.response) === false) {
-        console.debug('Skipping further error handling due to global handler returning false.')
-        return
-      }
+  public async handle(runGlobalHandler = true) {
+    // If the global handler returns false, we don't process the error further
+    if (runGlobalHandler && !ErrorHandler.runHandler(this.response)) {
+      return
     }
 
-    try {
-      this.body = await this.response.json<ResponseErrorBody>()
-    } catch (error) {
-      throw new InvalidJsonException(this.response, error)
-    }
+    const contentType = this.getHeader('content-type')
 
-    if (this.body === undefined) {
+    this.rawBody = await this.response.text()
+
+    if (this.rawBody.trim() === '' && this.response.getStatusCode() === undefined) {
       throw new NoResponseReceivedException(this.response)
     }
 
-    this.handleResponseError(this.response, this.body)
-  }
+    // Without a content type we cannot tell what the body is, so a non-empty body is still expected to be JSON.
+    this.body = this.decodeBody(this.rawBody, contentType ?? 'application/json')
 
-  public static registerHandler(callback: ErrorHandlerCallback) {
-    ErrorHandler.handler = callback
+    this.handleResponseError(this.response, this.body, this.rawBody)
   }
 
-  protected handleResponseError(response: ResponseHandlerContract, body: ResponseErrorBody) {
-    if (response.getStatusCode() === 400) {
-      throw new BadRequestException<ResponseErrorBody>(response, body)
+  public static runHandler(response: ResponseHandlerContract): boolean {
+    if (ErrorHandler.handler === undefined || ErrorHandler.handler(response) !== false) {
+      return true
     }
 
-    if (response.getStatusCode() === 401) {
-      throw new UnauthorizedException<ResponseErrorBody>(response, body)
-    }
-
-    if (response.getStatusCode() === 403) {
-      throw new ForbiddenException<ResponseErrorBody>(response, body)
-    }
+    console.debug('Skipping further error handling due to global handler returning false.')
 
-    if (response.getStatusCode() === 404) {
-      throw new NotFoundException<ResponseErrorBody>(response, body)
-    }
+    return false
+  }
 
-    if (response.getStatusCode() === 405) {
-      throw new MethodNotAllowedException<ResponseErrorBody>(response, body)
-    }
+  public static registerHandler(callback: ErrorHandlerCallback) {
+    ErrorHandler.handler = callback
+  }
 
-    if (response.getStatusCode() === 408) {
-      throw new RequestTimeoutException<ResponseErrorBody>(response, body)
-    }
+  public static registerException<ResponseErrorBody>(mapping: ResponseExceptionMapping<ResponseErrorBody>): void {
+    ErrorHandler.exceptions.push(mapping as ResponseExceptionMapping<unknown>)
+  }
 
-    if (response.getStatusCode() === 409) {
-      throw new ConflictException<ResponseErrorBody>(response, body)
-    }
+  public static clearExceptions(): void {
+    ErrorHandler.exceptions = []
+  }
 
-    if (response.getStatusCode() === 410) {
-      throw new GoneException<ResponseErrorBody>(response, body)
+  protected decodeBody(rawBody: string, contentType: string): ResponseErrorBody | undefined {
+    if (rawBody.trim() === '') {
+      return undefined
     }
 
-    if (response.getStatusCode() === 412) {
-      throw new PreconditionFailedException<ResponseErrorBody>(response, body)
+    // Matches application/json as well as structured syntax suffixes like application/problem+json.
+    if (!/^application\/([\w.-]+\+)?json\b/i.test(contentType.trim())) {
+      return undefined
     }
 
-    if (response.getStatusCode() === 413) {
-      throw new PayloadTooLargeException<ResponseErrorBody>(response, body)
+    try {
+      return JSON.parse(rawBody) as ResponseErrorBody
+    } catch (error) {
+      throw new InvalidJsonException(this.response, error)
     }
+  }
 
-    if (response.getStatusCode() === 415) {
-      throw new UnsupportedMediaTypeException<ResponseErrorBody>(response, body)
-    }
+  protected getHeader(name: string): string | undefined {
+    // Hand-written response handlers do not always expose headers.
+    const headers = this.response.getHeaders?.() ?? {}
+    const key = Object.keys(headers).find((header) => header.toLowerCase() === name)
 
-    if (response.getStatusCode() === 419) {
-      throw new PageExpiredException<ResponseErrorBody>(response, body)
-    }
+    return key === undefined ? undefined : headers[key]
+  }
 
-    if (response.getStatusCode() === 422) {
-      throw new ValidationException<ResponseErrorBody>(response, body)
-    }
+  protected handleResponseError(response: ResponseHandlerContract, body: ResponseErrorBody | undefined, rawBody?: string) {
+    const exception = this.resolveException(response, body)
 
-    if (response.getStatusCode() === 423) {
-      throw new LockedException<ResponseErrorBody>(response, body)
+    if (exception !== undefined) {
+      throw new exception(response, body, rawBody)
     }
 
-    if (response.getStatusCode() === 429) {
-      throw new TooManyRequestsException<ResponseErrorBody>(response, body)
-    }
+    throw new ResponseBodyException(response, body, rawBody)
+  }
 
-    if (response.getStatusCode() === 500) {
-      throw new ServerErrorException<ResponseErrorBody>(response, body)
-    }
+  protected resolveException(
+    response: ResponseHandlerContract,
+    body: ResponseErrorBody | undefined
+  ): ResponseExceptionConstructor<ResponseErrorBody> | undefined {
+    // Request-specific mappings win over global ones, which in turn win over the built-in status mapping.
+    const mappings = [...this.exceptions, ...(ErrorHandler.exceptions as ResponseExceptionMapping<ResponseErrorBody>[])]
+    const statusCode = response.getStatusCode()
+    const mapping = mappings.find(
+      (candidate) =>
+        this.matchesStatus(candidate.status, statusCode) &&
+        // Body predicates can only match when there is a decoded body.
+        (candidate.when === undefined || (body !== undefined && candidate.when(body, response)))
+    )
+
+    if (mapping !== undefined) {
+      return mapping.exception
+    }
+
+    return statusCode === undefined ? undefined : ErrorHandler.statusExceptions[statusCode]
+  }
 
-    if (response.getStatusCode() === 501) {
-      throw new NotImplementedException<ResponseErrorBody>(response, body)
+  protected matchesStatus(status: ResponseExceptionMapping['status'], statusCode: number | undefined): boolean {
+    if (status === undefined) {
+      return true
     }
 
-    if (response.getStatusCode() === 502) {
-      throw new BadGatewayException<ResponseErrorBody>(response, body)
+    if (statusCode === undefined) {
+      return false
     }
 
-    if (response.getStatusCode() === 503) {
-      throw new ServiceUnavailableException<ResponseErrorBody>(response, body)
+    if (typeof status === 'number') {
+      return status === statusCode
     }
 
-    if (response.getStatusCode() === 504) {
-      throw new GatewayTimeoutException<ResponseErrorBody>(response, body)
+    if (Array.isArray(status)) {
+      return status.includes(statusCode)
     }
 
-    throw new ResponseException(response)
+    return statusCode >= status.from && statusCode <= status.to
   }
 }
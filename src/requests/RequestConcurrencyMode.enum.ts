@@ -2,5 +2,6 @@ export enum RequestConcurrencyMode {
   ALLOW = 'allow',
   REPLACE = 'replace',
   LATEST = 'latest',
-  REPLACE_LATEST = 'replace-latest'
+  REPLACE_LATEST = 'replace-latest',
+  DEDUPE = 'dedupe'
 }
@@ -1,64 +1,37 @@
-import { BadRequestException } from './exceptions/BadRequestException'
-import { MethodNotAllowedException } from './exceptions/MethodNotAllowedException'
-import { RequestTimeoutException } from './exceptions/RequestTimeoutException'
-import { ConflictException } from './exceptions/ConflictException'
-import { GoneException } from './exceptions/GoneException'
-import { PreconditionFailedException } from './exceptions/PreconditionFailedException'
-import { PayloadTooLargeException } from './exceptions/PayloadTooLargeException'
-import { UnsupportedMediaTypeException } from './exceptions/UnsupportedMediaTypeException'
-import { ForbiddenException } from './exceptions/ForbiddenException'
-import { LockedException } from './exceptions/LockedException'
-import { NoResponseReceivedException } from './exceptions/NoResponseReceivedException'
-import { NotFoundException } from './exceptions/NotFoundException'
-import { NotImplementedException } from './exceptions/NotImplementedException'
-import { BadGatewayException } from './exceptions/BadGatewayException'
-import { PageExpiredException } from './exceptions/PageExpiredException'
 import { ResponseBodyException } from './exceptions/ResponseBodyException'
-import { ResponseException } from './exceptions/ResponseException'
-import { ServerErrorException } from './exceptions/ServerErrorException'
-import { ServiceUnavailableException } from './exceptions/ServiceUnavailableException'
-import { GatewayTimeoutException } from './exceptions/GatewayTimeoutException'
-import { TooManyRequestsException } from './exceptions/TooManyRequestsException'
-import { UnauthorizedException } from './exceptions/UnauthorizedException'
-import { ValidationException } from './exceptions/ValidationException'
-import { InvalidJsonException } from './exceptions/InvalidJsonException'
-
-type RequestExceptionConstructor =
-  | typeof BadRequestException
-  | typeof MethodNotAllowedException
-  | typeof RequestTimeoutException
-  | typeof ConflictException
-  | typeof GoneException
-  | typeof PreconditionFailedException
-  | typeof PayloadTooLargeException
-  | typeof UnsupportedMediaTypeException
-  | typeof UnauthorizedException
-  | typeof ForbiddenException
-  | typeof NotFoundException
-  | typeof PageExpiredException
-  | typeof ValidationException
-  | typeof LockedException
-  | typeof TooManyRequestsException
-  | typeof ServerErrorException
-  | typeof NotImplementedException
-  | typeof BadGatewayException
-  | typeof ServiceUnavailableException
-  | typeof GatewayTimeoutException
-  | typeof NoResponseReceivedException
-  | typeof InvalidJsonException
-  | typeof ResponseBodyException
-  | typeof ResponseException
+import { type ProblemDetails } from './types/ProblemDetails'
+
+// Any exception class can be routed, including the ones registered with ErrorHandler.registerException().
+type RequestExceptionConstructor = abstract new (...args: never[]) => Error
 
 type ErrorHandlerCallback<T extends Error> = (error: T) => void | Promise<void>
 
+type ProblemTypeHandlerCallback = (error: ResponseBodyException<unknown>, problem: ProblemDetails) => void | Promise<void>
+
 type UnknownErrorHandlerCallback = (error: unknown) => void | Promise<void>
 
 export class RequestErrorRouter {
-  protected handlers: Array<{ ctor: RequestExceptionConstructor; handler: ErrorHandlerCallback<Error> }> = []
+  protected handlers: Array<{ matches: (error: unknown) => boolean; handler: (error: unknown) => void | Promise<void> }> = []
   protected defaultHandler: UnknownErrorHandlerCallback | undefined = undefined
 
   public on<C extends RequestExceptionConstructor>(ctor: C, handler: ErrorHandlerCallback<InstanceType<C>>): this {
-    this.handlers.push({ ctor, handler: handler as ErrorHandlerCallback<Error> })
+    this.handlers.push({
+      matches: (error) => error instanceof ctor,
+      handler: handler as UnknownErrorHandlerCallback
+    })
+
+    return this
+  }
+
+  public onProblemType(type: string, handler: ProblemTypeHandlerCallback): this {
+    this.handlers.push({
+      matches: (error) => error instanceof ResponseBodyException && error.getProblem()?.type === type,
+      handler: async (error) => {
+        const exception = error as ResponseBodyException<unknown>
+
+        await handler(exception, exception.getProblem()!)
+      }
+    })
 
     return this
   }
@@ -71,7 +44,7 @@ export class RequestErrorRouter {
 
   public async handle(error: unknown): Promise<boolean> {
     for (const entry of this.handlers) {
-      if (error instanceof entry.ctor) {
+      if (entry.matches(error)) {
         await entry.handler(error)
 
         return true
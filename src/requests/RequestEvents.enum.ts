@@ -1,4 +1,5 @@
 export enum RequestEvents {
   LOADING = 'loading',
-  UPLOAD_PROGRESS = 'upload-progress'
+  UPLOAD_PROGRESS = 'upload-progress',
+  DOWNLOAD_PROGRESS = 'download-progress'
 }
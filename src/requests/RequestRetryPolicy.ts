@@ -0,0 +1,115 @@
+import { ResponseException } from './exceptions/ResponseException'
+import { StaleResponseException } from './exceptions/StaleResponseException'
+import { ServiceUnavailableException } from './exceptions/ServiceUnavailableException'
+import { GatewayTimeoutException } from './exceptions/GatewayTimeoutException'
+import { TooManyRequestsException } from './exceptions/TooManyRequestsException'
+import { TimeoutException } from './exceptions/TimeoutException'
+import { NetworkException } from './exceptions/NetworkException'
+import { wait } from './support/helpers'
+import { RequestMethodEnum } from './RequestMethod.enum'
+import { type RequestRetryOptions } from './types/RequestRetryOptions'
+
+export class RequestRetryPolicy {
+  // Only methods that can safely be sent twice are retried unless the caller opts in.
+  protected static idempotentMethods: RequestMethodEnum[] = [
+    RequestMethodEnum.GET,
+    RequestMethodEnum.HEAD,
+    RequestMethodEnum.PUT,
+    RequestMethodEnum.DELETE
+  ]
+
+  public constructor(protected options: RequestRetryOptions = {}) {}
+
+  public getAttempts(): number {
+    return Math.max(1, this.options.attempts ?? 3)
+  }
+
+  public allowsMethod(method: RequestMethodEnum): boolean {
+    return (this.options.methods ?? RequestRetryPolicy.idempotentMethods).includes(method)
+  }
+
+  public canRetry(attempt: number, method?: RequestMethodEnum): boolean {
+    return attempt < this.getAttempts() && (method === undefined || this.allowsMethod(method))
+  }
+
+  public shouldRetry(error: unknown, attempt: number, method?: RequestMethodEnum): boolean {
+    if (!this.canRetry(attempt, method)) {
+      return false
+    }
+
+    // Aborted and superseded requests must never be sent again.
+    if (this.isAbortError(error) || error instanceof StaleResponseException) {
+      return false
+    }
+
+    if (this.options.retryOn !== undefined) {
+      return this.options.retryOn(error, attempt)
+    }
+
+    return this.isRetryable(error)
+  }
+
+  public getDelay(error: unknown, attempt: number): number {
+    const maxDelay = this.options.maxDelay ?? 30000
+    const retryAfter = this.options.respectRetryAfter === false ? undefined : this.getRetryAfter(error)
+
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, maxDelay)
+    }
+
+    const exponential = Math.min((this.options.baseDelay ?? 300) * Math.pow(this.options.factor ?? 2, attempt - 1), maxDelay)
+
+    if (this.options.jitter === false) {
+      return exponential
+    }
+
+    // Equal jitter: keep half of the backoff and randomize the other half.
+    return exponential / 2 + Math.random() * (exponential / 2)
+  }
+
+  public wait(delay: number, signal?: AbortSignal): Promise<void> {
+    return wait(delay, signal)
+  }
+
+  protected isRetryable(error: unknown): boolean {
+    return (
+      error instanceof ServiceUnavailableException ||
+      error instanceof GatewayTimeoutException ||
+      error instanceof TooManyRequestsException ||
+      error instanceof TimeoutException ||
+      error instanceof NetworkException ||
+      // Custom drivers may still reject with the raw fetch() TypeError.
+      error instanceof TypeError
+    )
+  }
+
+  protected isAbortError(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError'
+  }
+
+  protected getRetryAfter(error: unknown): number | undefined {
+    if (!(error instanceof ResponseException)) {
+      return undefined
+    }
+
+    const headers = error.getResponse().getHeaders()
+    const key = Object.keys(headers).find((header) => header.toLowerCase() === 'retry-after')
+    const value = key === undefined ? undefined : headers[key]?.trim()
+
+    if (value === undefined || value.length === 0) {
+      return undefined
+    }
+
+    if (/^\d+$/.test(value)) {
+      return Number(value) * 1000
+    }
+
+    const date = Date.parse(value)
+
+    if (Number.isNaN(date)) {
+      return undefined
+    }
+
+    return Math.max(0, date - Date.now())
+  }
+}
@@ -0,0 +1,143 @@
+import { RequestAbortedException } from './exceptions/RequestAbortedException'
+import { type RequestInterceptorContext, type RequestInterceptorContract, type RequestInterceptorNext } from './contracts/RequestInterceptorContract'
+import { type ResponseHandlerContract } from './drivers/contracts/ResponseHandlerContract'
+import { type RequestSchedulerOptions } from './types/RequestSchedulerOptions'
+import { type RequestScheduleOptions } from './types/RequestScheduleOptions'
+
+interface QueuedTask {
+  key: string | undefined
+  priority: number
+  start: () => void
+  signal: AbortSignal | undefined
+  handleAbort: () => void
+}
+
+export class RequestScheduler implements RequestInterceptorContract {
+  protected queue: QueuedTask[] = []
+  protected running: number = 0
+  protected runningByKey: Map<string, number> = new Map()
+
+  public constructor(protected options: RequestSchedulerOptions = {}) {}
+
+  public async intercept(context: RequestInterceptorContext, next: RequestInterceptorNext): Promise<ResponseHandlerContract> {
+    return await this.schedule(() => next(context), {
+      key: this.options.key?.(context) ?? context.url.host,
+      priority: context.request.getPriority(),
+      signal: context.config.abortSignal
+    })
+  }
+
+  public schedule<T>(task: () => Promise<T>, options: RequestScheduleOptions = {}): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new RequestAbortedException())
+        return
+      }
+
+      const queued: QueuedTask = {
+        key: options.key,
+        priority: options.priority ?? 0,
+        signal: options.signal,
+        // Aborted tasks leave the queue right away and never reach the driver.
+        handleAbort: () => {
+          this.queue = this.queue.filter((entry) => entry !== queued)
+          reject(new RequestAbortedException())
+        },
+        start: () => {
+          this.acquire(queued.key)
+
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.release(queued.key)
+              this.drain()
+            })
+        }
+      }
+
+      options.signal?.addEventListener('abort', queued.handleAbort, { once: true })
+
+      this.enqueue(queued)
+      this.drain()
+    })
+  }
+
+  public getRunningCount(key?: string): number {
+    return key === undefined ? this.running : (this.runningByKey.get(key) ?? 0)
+  }
+
+  public getQueuedCount(key?: string): number {
+    return key === undefined ? this.queue.length : this.queue.filter((entry) => entry.key === key).length
+  }
+
+  protected enqueue(task: QueuedTask): void {
+    // Higher priorities go first; equal priorities keep their order.
+    const index = this.queue.findIndex((entry) => entry.priority < task.priority)
+
+    if (index === -1) {
+      this.queue.push(task)
+      return
+    }
+
+    this.queue.splice(index, 0, task)
+  }
+
+  protected drain(): void {
+    for (let i = 0; i < this.queue.length; ) {
+      if (!this.hasGlobalCapacity()) {
+        return
+      }
+
+      const task = this.queue[i]!
+
+      // A saturated key must not block queued requests for other keys.
+      if (!this.hasKeyCapacity(task.key)) {
+        i++
+        continue
+      }
+
+      this.queue.splice(i, 1)
+      task.signal?.removeEventListener('abort', task.handleAbort)
+      task.start()
+    }
+  }
+
+  protected hasGlobalCapacity(): boolean {
+    return this.options.maxConcurrent === undefined || this.running < this.options.maxConcurrent
+  }
+
+  protected hasKeyCapacity(key: string | undefined): boolean {
+    if (key === undefined) {
+      return true
+    }
+
+    const limit = this.options.keyLimits?.[key] ?? this.options.maxConcurrentPerKey
+
+    return limit === undefined || (this.runningByKey.get(key) ?? 0) < limit
+  }
+
+  protected acquire(key: string | undefined): void {
+    this.running++
+
+    if (key !== undefined) {
+      this.runningByKey.set(key, (this.runningByKey.get(key) ?? 0) + 1)
+    }
+  }
+
+  protected release(key: string | undefined): void {
+    this.running--
+
+    if (key === undefined) {
+      return
+    }
+
+    const next = (this.runningByKey.get(key) ?? 1) - 1
+
+    if (next <= 0) {
+      this.runningByKey.delete(key)
+      return
+    }
+
+    this.runningByKey.set(key, next)
+  }
+}
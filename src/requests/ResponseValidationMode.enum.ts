@@ -0,0 +1,4 @@
+export enum ResponseValidationMode {
+  THROW = 'throw',
+  WARN = 'warn'
+}
@@ -0,0 +1,28 @@
+import { type UrlTemplateParams } from './types/UrlTemplateParams'
+
+export class UrlTemplate<Template extends string> {
+  public constructor(protected template: Template) {}
+
+  public static expand<Template extends string>(template: Template, params: UrlTemplateParams<Template>): string {
+    return new UrlTemplate(template).expand(params)
+  }
+
+  public expand(params: UrlTemplateParams<Template>): string {
+    const values = params as Record<string, string | number | null | undefined>
+
+    return this.template.replace(/{([^{}]+)}/g, (_placeholder, name: string) => {
+      const value = values[name]
+
+      if (value === undefined || value === null) {
+        throw new Error(`Missing URL parameter "${name}" for "${this.template}".`)
+      }
+
+      // Values are encoded as a single segment, so "a/b" cannot change the path.
+      return encodeURIComponent(String(value))
+    })
+  }
+
+  public getTemplate(): Template {
+    return this.template
+  }
+}
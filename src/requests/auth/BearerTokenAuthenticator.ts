@@ -0,0 +1,80 @@
+import { ResponseException } from '../exceptions/ResponseException'
+import { type RequestInterceptorContext, type RequestInterceptorContract, type RequestInterceptorNext } from '../contracts/RequestInterceptorContract'
+import { type ResponseHandlerContract } from '../drivers/contracts/ResponseHandlerContract'
+import { type BearerTokenAuthenticatorOptions } from '../types/BearerTokenAuthenticatorOptions'
+
+export class BearerTokenAuthenticator implements RequestInterceptorContract {
+  protected refreshing: Promise<boolean> | undefined = undefined
+
+  public constructor(protected options: BearerTokenAuthenticatorOptions) {}
+
+  public async intercept(context: RequestInterceptorContext, next: RequestInterceptorNext): Promise<ResponseHandlerContract> {
+    if (this.options.shouldAuthenticate?.(context) === false) {
+      return await next(context)
+    }
+
+    const token = this.getToken()
+
+    try {
+      return await next(this.withToken(context))
+    } catch (error) {
+      if (!this.isUnauthorized(error) || !(await this.refreshToken(token))) {
+        throw error
+      }
+
+      // Replay once with the new token; a second 401 is passed on to the caller.
+      return await next(this.withToken(context))
+    }
+  }
+
+  public isRefreshing(): boolean {
+    return this.refreshing !== undefined
+  }
+
+  protected async refreshToken(failedToken: string | undefined): Promise<boolean> {
+    // Another request already refreshed the token this request was sent with.
+    if (this.refreshing === undefined && failedToken !== this.getToken()) {
+      return true
+    }
+
+    // Every request failing while a refresh is running waits for that same refresh.
+    this.refreshing ??= this.options
+      .refresh()
+      .then(
+        () => true,
+        (error: unknown) => {
+          this.options.onLogout?.(error)
+
+          return false
+        }
+      )
+      .finally(() => {
+        this.refreshing = undefined
+      })
+
+    return await this.refreshing
+  }
+
+  protected withToken(context: RequestInterceptorContext): RequestInterceptorContext {
+    if (this.getToken() === undefined) {
+      return context
+    }
+
+    return {
+      ...context,
+      headers: {
+        ...context.headers,
+        // Resolved by the driver at dispatch time, so replays pick up the refreshed token.
+        [this.options.header ?? 'Authorization']: () => `${this.options.scheme ?? 'Bearer'} ${this.getToken() ?? ''}`
+      }
+    }
+  }
+
+  protected getToken(): string | undefined {
+    return this.options.getToken() ?? undefined
+  }
+
+  protected isUnauthorized(error: unknown): boolean {
+    return error instanceof ResponseException && error.getResponse().getStatusCode() === 401
+  }
+}
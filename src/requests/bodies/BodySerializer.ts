@@ -0,0 +1,170 @@
+import { BodySerializationException } from '../exceptions/BodySerializationException'
+import { isObject, isPlainObject, toSnakeCase } from '../../support/helpers'
+import { type BodySerializationOptions } from '../types/BodySerializationOptions'
+
+export type BodySerializerEntry = [key: string, value: string | Blob]
+
+export class BodySerializer {
+  public constructor(protected options: BodySerializationOptions = {}) {}
+
+  // Prepares a value for JSON.stringify(). Only plain objects and arrays are traversed.
+  public toJsonValue(value: unknown, path: string[] = []): unknown {
+    // Like JSON.stringify(), a toJSON() method replaces the object before it is serialized.
+    if (isPlainObject(value) && typeof value['toJSON'] === 'function') {
+      return this.prepareJsonValue((value['toJSON'] as (key: string) => unknown)(path[path.length - 1] ?? ''), path)
+    }
+
+    return this.prepareJsonValue(value, path)
+  }
+
+  protected prepareJsonValue(value: unknown, path: string[]): unknown {
+    if (Array.isArray(value)) {
+      // JSON.stringify() writes null for array items it cannot represent.
+      return value.map((item, index) => (this.isOmittedFromJson(item) ? null : this.toJsonValue(item, [...path, String(index)])))
+    }
+
+    if (isPlainObject(value)) {
+      const prepared: Record<string, unknown> = {}
+
+      for (const key in value) {
+        const item = value[key]
+
+        if (item === undefined || this.isOmittedFromJson(item) || (item === null && this.options.skipNulls === true)) {
+          continue
+        }
+
+        prepared[this.formatKey(key)] = this.toJsonValue(item, [...path, key])
+      }
+
+      return prepared
+    }
+
+    if (this.isOmittedFromJson(value)) {
+      return undefined
+    }
+
+    if (typeof value === 'bigint') {
+      throw new BodySerializationException(this.formatPath(path), 'bigint values cannot be sent as JSON.')
+    }
+
+    return value
+  }
+
+  // Functions and symbols are silently left out by JSON.stringify(), so they are here as well.
+  protected isOmittedFromJson(value: unknown): boolean {
+    return typeof value === 'function' || typeof value === 'symbol'
+  }
+
+  // Flattens a body into key/value pairs for multipart bodies.
+  public toEntries(data: Record<string, unknown>): BodySerializerEntry[] {
+    return this.collectEntries(data, true)
+  }
+
+  // Encodes a body as `application/x-www-form-urlencoded`, which cannot carry files.
+  public toUrlEncoded(data: Record<string, unknown>): string {
+    const params = new URLSearchParams()
+
+    for (const [key, value] of this.collectEntries(data, false)) {
+      params.append(key, value as string)
+    }
+
+    return params.toString()
+  }
+
+  protected collectEntries(data: Record<string, unknown>, allowBlobs: boolean): BodySerializerEntry[] {
+    const entries: BodySerializerEntry[] = []
+
+    for (const key in data) {
+      if (Object.prototype.hasOwnProperty.call(data, key)) {
+        this.appendEntries(entries, this.formatKey(key), data[key], [key], allowBlobs)
+      }
+    }
+
+    return entries
+  }
+
+  protected appendEntries(entries: BodySerializerEntry[], key: string, value: unknown, path: string[], allowBlobs: boolean): void {
+    // Null is a valid "explicitly empty" value in many APIs, so by default the key is sent with an empty value.
+    if (value === null) {
+      if (this.options.skipNulls !== true) {
+        entries.push([key, ''])
+      }
+
+      return
+    }
+
+    // Undefined values should not reach the request layer (BaseForm omits them).
+    // Reject explicitly to avoid silently dropping keys.
+    if (value === undefined) {
+      throw new BodySerializationException(this.formatPath(path), 'undefined is not allowed. Omit the key or use null instead.')
+    }
+
+    if (value instanceof Date) {
+      entries.push([key, value.toISOString()])
+      return
+    }
+
+    // Files/Blobs are appended directly (File extends Blob)
+    if (typeof Blob !== 'undefined' && value instanceof Blob) {
+      if (!allowBlobs) {
+        throw new BodySerializationException(this.formatPath(path), 'files cannot be sent URL-encoded. Use form data instead.')
+      }
+
+      entries.push([key, value])
+      return
+    }
+
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => this.appendEntries(entries, this.formatArrayKey(key, index), item, [...path, String(index)], allowBlobs))
+      return
+    }
+
+    if (isObject(value)) {
+      const object = value as Record<string, unknown>
+
+      for (const property in object) {
+        if (Object.prototype.hasOwnProperty.call(object, property)) {
+          this.appendEntries(entries, this.formatNestedKey(key, this.formatKey(property)), object[property], [...path, property], allowBlobs)
+        }
+      }
+
+      return
+    }
+
+    if (typeof value === 'boolean') {
+      entries.push([key, this.options.booleanFormat === 'numeric' ? (value ? '1' : '0') : String(value)])
+      return
+    }
+
+    if (typeof value === 'string' || typeof value === 'number') {
+      entries.push([key, String(value)])
+      return
+    }
+
+    throw new BodySerializationException(this.formatPath(path), `${typeof value} values are not supported.`)
+  }
+
+  protected formatKey(key: string): string {
+    return this.options.snakeCaseKeys === true ? toSnakeCase(key) : key
+  }
+
+  protected formatNestedKey(parent: string, key: string): string {
+    return this.options.nesting === 'dots' ? `${parent}.${key}` : `${parent}[${key}]`
+  }
+
+  protected formatArrayKey(parent: string, index: number): string {
+    if (this.options.arrayFormat === 'repeat') {
+      return parent
+    }
+
+    if (this.options.arrayFormat === 'brackets') {
+      return `${parent}[]`
+    }
+
+    return this.formatNestedKey(parent, String(index))
+  }
+
+  protected formatPath(path: string[]): string {
+    return path.length === 0 ? '(root)' : path.join('.')
+  }
+}
@@ -1,8 +1,13 @@
+import { BodySerializer } from './BodySerializer'
 import { type BodyContract } from '../contracts/BodyContract'
 import { type HeadersContract } from '../contracts/HeadersContract'
+import { type BodySerializationOptions } from '../types/BodySerializationOptions'
 
 export class JsonBody<RequestBody> implements BodyContract {
-  public constructor(protected data: RequestBody) {}
+  public constructor(
+    protected data: RequestBody,
+    protected options: BodySerializationOptions = {}
+  ) {}
 
   public getHeaders(): HeadersContract {
     return {
@@ -11,6 +16,6 @@ export class JsonBody<RequestBody> implements BodyContract {
   }
 
   public getContent(): string {
-    return JSON.stringify(this.data)
+    return JSON.stringify(new BodySerializer(this.options).toJsonValue(this.data))
   }
 }
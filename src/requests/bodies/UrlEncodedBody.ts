@@ -0,0 +1,28 @@
+import { BodySerializer } from './BodySerializer'
+import { type BodyContract } from '../contracts/BodyContract'
+import { type HeadersContract } from '../contracts/HeadersContract'
+import { type BodySerializationOptions } from '../types/BodySerializationOptions'
+
+type UrlEncodedPrimitive = string | number | boolean | null | Date
+type UrlEncodedValue = UrlEncodedPrimitive | UrlEncodedValue[] | { [key: string]: UrlEncodedValue }
+
+export class UrlEncodedBody<RequestBody extends Record<string, UrlEncodedValue | undefined>> implements BodyContract {
+  protected data: string
+
+  public constructor(
+    data: RequestBody,
+    protected options: BodySerializationOptions = {}
+  ) {
+    this.data = new BodySerializer(this.options).toUrlEncoded(data)
+  }
+
+  public getHeaders(): HeadersContract {
+    return {
+      'Content-Type': 'application/x-www-form-urlencoded'
+    }
+  }
+
+  public getContent(): string {
+    return this.data
+  }
+}
@@ -0,0 +1,82 @@
+import { type ResolvedHeadersContract } from '../contracts/HeadersContract'
+import { type ResponseHandlerContract } from '../drivers/contracts/ResponseHandlerContract'
+
+export interface CachedResponseEntry {
+  key: string
+  url: string
+  status: number
+  statusText: string
+  headers: ResolvedHeadersContract
+  body: string
+  storedAt: number
+}
+
+export class CachedResponse implements ResponseHandlerContract {
+  protected response: Response
+
+  public constructor(protected entry: CachedResponseEntry) {
+    this.response = new Response(CachedResponse.decodeBody(entry.body), {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: entry.headers
+    })
+  }
+
+  public static encodeBody(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer)
+    let binary = ''
+
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)))
+    }
+
+    return btoa(binary)
+  }
+
+  public static decodeBody(body: string): Uint8Array<ArrayBuffer> | null {
+    if (body.length === 0) {
+      return null
+    }
+
+    const binary = atob(body)
+    const bytes = new Uint8Array(binary.length)
+
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i)
+    }
+
+    return bytes
+  }
+
+  public getEntry(): CachedResponseEntry {
+    return this.entry
+  }
+
+  public getStatusCode(): number | undefined {
+    return this.response.status
+  }
+
+  public getHeaders(): ResolvedHeadersContract {
+    return { ...this.entry.headers }
+  }
+
+  public getRawResponse(): Response {
+    return this.response
+  }
+
+  public async json<ResponseBodyInterface>(): Promise<ResponseBodyInterface> {
+    return await this.response.clone().json()
+  }
+
+  public async text(): Promise<string> {
+    return await this.response.clone().text()
+  }
+
+  public async blob(): Promise<Blob> {
+    return await this.response.clone().blob()
+  }
+
+  public clone(): CachedResponse {
+    return new CachedResponse(this.entry)
+  }
+}
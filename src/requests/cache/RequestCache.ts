@@ -0,0 +1,244 @@
+import { RequestMethodEnum } from '../RequestMethod.enum'
+import { ResponseException } from '../exceptions/ResponseException'
+import { MemoryPersistenceDriver } from '../../persistenceDrivers/MemoryPersistenceDriver'
+import { type PersistenceDriver } from '../../persistenceDrivers/types/PersistenceDriver'
+import { type ResolvedHeadersContract } from '../contracts/HeadersContract'
+import { type RequestInterceptorContext, type RequestInterceptorContract, type RequestInterceptorNext } from '../contracts/RequestInterceptorContract'
+import { type ResponseHandlerContract } from '../drivers/contracts/ResponseHandlerContract'
+import { type RequestCacheOptions } from '../types/RequestCacheOptions'
+import { CachedResponse, type CachedResponseEntry } from './CachedResponse'
+import { findHeader, resolveHeaders } from '../support/helpers'
+
+export class RequestCache implements RequestInterceptorContract {
+  protected driver: PersistenceDriver
+  protected ttl: number
+  protected staleWhileRevalidate: number
+  protected varyHeaders: string[]
+  protected privateCache: boolean
+  protected namespace: string
+  protected revalidating: Map<string, Promise<ResponseHandlerContract>> = new Map()
+  protected static streamingContentTypes: string[] = ['text/event-stream', 'application/x-ndjson']
+
+  public constructor(options: RequestCacheOptions = {}) {
+    this.driver = options.driver ?? new MemoryPersistenceDriver('request-cache')
+    this.ttl = options.ttl ?? 60000
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0
+    this.privateCache = options.privateCache ?? false
+    // A private cache still keeps the responses of different credentials apart.
+    this.varyHeaders = [...(this.privateCache ? ['authorization'] : []), ...(options.varyHeaders ?? [])]
+      .map((header) => header.toLowerCase())
+      .filter((header, index, headers) => headers.indexOf(header) === index)
+    this.namespace = options.namespace ?? 'request-cache'
+  }
+
+  public async intercept(context: RequestInterceptorContext, next: RequestInterceptorNext): Promise<ResponseHandlerContract> {
+    if (![RequestMethodEnum.GET, RequestMethodEnum.HEAD].includes(context.method)) {
+      return await next(context)
+    }
+
+    // Authenticated responses are only cached when the storage is known to belong to a single user.
+    if (!this.privateCache && findHeader(resolveHeaders(context.headers), 'authorization') !== undefined) {
+      return await next(context)
+    }
+
+    const key = this.buildKey(context)
+    const entry = this.read(key)
+
+    if (entry === undefined) {
+      return await this.fetch(key, context, next)
+    }
+
+    const age = Date.now() - entry.storedAt
+
+    // no-cache responses may be stored, but must be revalidated before every use.
+    if (this.getCacheDirectives(entry.headers).includes('no-cache')) {
+      return await this.fetch(key, this.withConditionalHeaders(context, entry), next, entry)
+    }
+
+    if (age < this.ttl) {
+      return new CachedResponse(entry)
+    }
+
+    if (age < this.ttl + this.staleWhileRevalidate) {
+      this.revalidate(key, entry, context, next)
+
+      return new CachedResponse(entry)
+    }
+
+    return await this.fetch(key, this.withConditionalHeaders(context, entry), next, entry)
+  }
+
+  public buildKey(context: Pick<RequestInterceptorContext, 'method' | 'url' | 'headers'>): string {
+    const headers = resolveHeaders(context.headers)
+    const vary = this.varyHeaders.map((header) => `${header}=${findHeader(headers, header) ?? ''}`)
+
+    return [`${context.method} ${context.url.toString()}`, ...vary].join('|')
+  }
+
+  public get(key: string): CachedResponseEntry | undefined {
+    return this.read(key)
+  }
+
+  public invalidate(prefix: string = ''): void {
+    const index = this.readIndex()
+    const remaining: string[] = []
+
+    for (const key of index) {
+      const entry = this.read(key)
+
+      if (entry === undefined || key.startsWith(prefix) || entry.url.startsWith(prefix)) {
+        this.driver.remove(this.storageKey(key))
+        continue
+      }
+
+      remaining.push(key)
+    }
+
+    this.writeIndex(remaining)
+  }
+
+  public clear(): void {
+    this.invalidate()
+  }
+
+  protected async fetch(
+    key: string,
+    context: RequestInterceptorContext,
+    next: RequestInterceptorNext,
+    entry?: CachedResponseEntry
+  ): Promise<ResponseHandlerContract> {
+    let response: ResponseHandlerContract
+
+    try {
+      response = await next(context)
+    } catch (error) {
+      // Drivers reject non-2xx responses, which includes a successful 304 revalidation.
+      if (entry !== undefined && error instanceof ResponseException && error.getResponse().getStatusCode() === 304) {
+        return new CachedResponse(this.touch(entry))
+      }
+
+      throw error
+    }
+
+    if (entry !== undefined && response.getStatusCode() === 304) {
+      return new CachedResponse(this.touch(entry))
+    }
+
+    this.store(key, context, response)
+
+    return response
+  }
+
+  protected revalidate(key: string, entry: CachedResponseEntry, context: RequestInterceptorContext, next: RequestInterceptorNext): void {
+    if (this.revalidating.has(key)) {
+      return
+    }
+
+    // The background request must not be cancelled with, or report progress to, the request that triggered it.
+    const backgroundContext = this.withConditionalHeaders(
+      {
+        ...context,
+        config: { ...context.config, abortSignal: undefined, onUploadProgress: undefined, onDownloadProgress: undefined }
+      },
+      entry
+    )
+
+    const revalidation = this.fetch(key, backgroundContext, next, entry)
+
+    this.revalidating.set(key, revalidation)
+
+    revalidation
+      .catch((error) => console.warn('@blueprint-ts/core: Background revalidation failed.', error))
+      .finally(() => this.revalidating.delete(key))
+  }
+
+  protected withConditionalHeaders(context: RequestInterceptorContext, entry: CachedResponseEntry): RequestInterceptorContext {
+    const etag = findHeader(entry.headers, 'etag')
+    const lastModified = findHeader(entry.headers, 'last-modified')
+
+    return {
+      ...context,
+      headers: {
+        ...context.headers,
+        ...(etag !== undefined ? { 'If-None-Match': etag } : {}),
+        ...(lastModified !== undefined ? { 'If-Modified-Since': lastModified } : {})
+      }
+    }
+  }
+
+  protected store(key: string, context: RequestInterceptorContext, response: ResponseHandlerContract): void {
+    const status = response.getStatusCode() ?? 0
+    const headers = response.getHeaders()
+    const directives = this.getCacheDirectives(headers)
+
+    if (status < 200 || status >= 300 || directives.includes('no-store') || (directives.includes('private') && !this.privateCache)) {
+      return
+    }
+
+    // Streamed bodies may never end, so there is nothing that could be stored.
+    if (RequestCache.streamingContentTypes.some((type) => (findHeader(headers, 'content-type') ?? '').toLowerCase().startsWith(type))) {
+      return
+    }
+
+    const storedAt = Date.now()
+    const raw = response.getRawResponse().clone()
+
+    // The body is read from a clone in the background so the caller is not blocked until a large body is downloaded.
+    raw
+      .arrayBuffer()
+      .then((buffer) =>
+        this.write({
+          key,
+          url: context.url.toString(),
+          status,
+          statusText: raw.statusText,
+          headers,
+          body: CachedResponse.encodeBody(buffer),
+          storedAt
+        })
+      )
+      .catch((error) => console.warn('@blueprint-ts/core: Could not cache the response body.', error))
+  }
+
+  protected touch(entry: CachedResponseEntry): CachedResponseEntry {
+    const refreshed = { ...entry, storedAt: Date.now() }
+
+    this.write(refreshed)
+
+    return refreshed
+  }
+
+  protected read(key: string): CachedResponseEntry | undefined {
+    return this.driver.get<CachedResponseEntry>(this.storageKey(key)) ?? undefined
+  }
+
+  protected write(entry: CachedResponseEntry): void {
+    this.driver.set(this.storageKey(entry.key), entry)
+
+    const index = this.readIndex()
+
+    if (!index.includes(entry.key)) {
+      this.writeIndex([...index, entry.key])
+    }
+  }
+
+  // Persistence drivers cannot list their keys, so we keep our own index to support prefix invalidation.
+  protected readIndex(): string[] {
+    return this.driver.get<string[]>(`${this.namespace}:index`) ?? []
+  }
+
+  protected writeIndex(index: string[]): void {
+    this.driver.set(`${this.namespace}:index`, index)
+  }
+
+  protected storageKey(key: string): string {
+    return `${this.namespace}:${key}`
+  }
+
+  protected getCacheDirectives(headers: ResolvedHeadersContract): string[] {
+    return (findHeader(headers, 'cache-control') ?? '')
+      .split(',')
+      .map((directive) => directive.split('=')[0]?.trim().toLowerCase() ?? '')
+      .filter((directive) => directive !== '')
+  }
+}
@@ -3,8 +3,11 @@ import { RequestEvents } from '../RequestEvents.enum'
 import { type BodyFactoryContract } from './BodyFactoryContract'
 import { type HeadersContract } from './HeadersContract'
 import { type RequestConcurrencyOptions } from '../types/RequestConcurrencyOptions'
+import { type RequestRetryOptions } from '../types/RequestRetryOptions'
+import { type RequestQueryOptions } from '../types/RequestQueryOptions'
 import { type ResponseHandlerContract } from '../drivers/contracts/ResponseHandlerContract'
 import { type RequestDriverContract } from './RequestDriverContract'
+import { type RequestInterceptorContract } from './RequestInterceptorContract'
 
 export type EventHandlerCallback<T> = (value: T) => void
 export interface SendRequestOptions {
@@ -26,6 +29,8 @@ export interface BaseRequestContract<RequestLoaderLoadingType, RequestBodyInterf
 
   requestHeaders(): HeadersContract
 
+  setQueryOptions(options?: RequestQueryOptions): this
+
   buildUrl(): URL
 
   on<T>(event: RequestEvents, handler: EventHandlerCallback<T>): this
@@ -42,7 +47,17 @@ export interface BaseRequestContract<RequestLoaderLoadingType, RequestBodyInterf
 
   setAbortSignal(signal: AbortSignal): this
 
+  setTimeout(timeout?: number): this
+
   setConcurrency(options?: RequestConcurrencyOptions): this
 
+  setRetry(options?: RequestRetryOptions): this
+
+  setPriority(priority?: number): this
+
+  getPriority(): number
+
   setRequestDriver(driver: RequestDriverContract): this
+
+  addInterceptor(interceptor: RequestInterceptorContract): this
 }
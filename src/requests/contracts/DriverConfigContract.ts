@@ -1,9 +1,12 @@
 import { type HeadersContract } from './HeadersContract'
 import { type RequestUploadProgress } from '../types/RequestUploadProgress'
+import { type RequestDownloadProgress } from '../types/RequestDownloadProgress'
 
 export interface DriverConfigContract {
   corsWithCredentials?: boolean | undefined
   abortSignal?: AbortSignal | undefined
+  timeout?: number | undefined
   headers?: HeadersContract | undefined
   onUploadProgress?: ((progress: RequestUploadProgress) => void) | undefined
+  onDownloadProgress?: ((progress: RequestDownloadProgress) => void) | undefined
 }
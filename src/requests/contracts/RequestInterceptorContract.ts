@@ -0,0 +1,21 @@
+import { RequestMethodEnum } from '../RequestMethod.enum'
+import { type BodyContract } from './BodyContract'
+import { type HeadersContract } from './HeadersContract'
+import { type DriverConfigContract } from './DriverConfigContract'
+import { type BaseRequestContract } from './BaseRequestContract'
+import { type ResponseHandlerContract } from '../drivers/contracts/ResponseHandlerContract'
+
+export interface RequestInterceptorContext {
+  request: BaseRequestContract<unknown, unknown, unknown, object>
+  url: URL
+  method: RequestMethodEnum
+  headers: HeadersContract
+  body?: BodyContract | undefined
+  config: DriverConfigContract
+}
+
+export type RequestInterceptorNext = (context: RequestInterceptorContext) => Promise<ResponseHandlerContract>
+
+export interface RequestInterceptorContract {
+  intercept(context: RequestInterceptorContext, next: RequestInterceptorNext): Promise<ResponseHandlerContract>
+}
@@ -0,0 +1,5 @@
+export interface ResponseTransformerContract<Input, Output> {
+  transform(body: Input): Output | Promise<Output>
+}
+
+export type ResponseTransformer<Input, Output> = ResponseTransformerContract<Input, Output> | ((body: Input) => Output | Promise<Output>)
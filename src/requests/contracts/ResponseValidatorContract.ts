@@ -0,0 +1,13 @@
+export interface ResponseValidationIssue {
+  // Location of the failing value, e.g. ['data', 0, 'name']. An empty path refers to the whole body.
+  path: Array<string | number>
+  message: string
+}
+
+export type ResponseValidationResult<ResponseBodyInterface> =
+  | { success: true; data: ResponseBodyInterface }
+  | { success: false; issues: ResponseValidationIssue[] }
+
+export interface ResponseValidatorContract<ResponseBodyInterface> {
+  validate(body: unknown): ResponseValidationResult<ResponseBodyInterface> | Promise<ResponseValidationResult<ResponseBodyInterface>>
+}
@@ -0,0 +1,77 @@
+import { BaseRequest } from './BaseRequest'
+import { UrlTemplate } from './UrlTemplate'
+import { type RequestMethodEnum } from './RequestMethod.enum'
+import { type BodyFactoryContract } from './contracts/BodyFactoryContract'
+import { type HeadersContract } from './contracts/HeadersContract'
+import { type ResponseContract } from './contracts/ResponseContract'
+import { type RequestDefinition } from './types/RequestDefinition'
+import { type UrlTemplateParamNames, type UrlTemplateParams } from './types/UrlTemplateParams'
+
+export type DefinedRequest<
+  ResponseBodyInterface,
+  ResponseClass extends ResponseContract<ResponseBodyInterface>,
+  RequestBodyInterface = undefined,
+  RequestParamsInterface extends object = object,
+  ResponseErrorBody = unknown
+> = BaseRequest<boolean, ResponseErrorBody, ResponseBodyInterface, ResponseClass, RequestBodyInterface, RequestParamsInterface>
+
+// Templates without placeholders do not take constructor arguments.
+export type DefinedRequestArgs<Template extends string> = [UrlTemplateParamNames<Template>] extends [never]
+  ? []
+  : [params: UrlTemplateParams<Template>]
+
+export type DefinedRequestClass<
+  Template extends string,
+  ResponseBodyInterface,
+  ResponseClass extends ResponseContract<ResponseBodyInterface>,
+  RequestBodyInterface = undefined,
+  RequestParamsInterface extends object = object,
+  ResponseErrorBody = unknown
+> = new (
+  ...args: DefinedRequestArgs<Template>
+) => DefinedRequest<ResponseBodyInterface, ResponseClass, RequestBodyInterface, RequestParamsInterface, ResponseErrorBody>
+
+export function defineRequest<
+  Template extends string,
+  ResponseBodyInterface,
+  ResponseClass extends ResponseContract<ResponseBodyInterface>,
+  RequestBodyInterface = undefined,
+  RequestParamsInterface extends object = object,
+  ResponseErrorBody = unknown
+>(
+  definition: RequestDefinition<Template, ResponseClass & ResponseContract<ResponseBodyInterface>, RequestBodyInterface, RequestParamsInterface>
+): DefinedRequestClass<Template, ResponseBodyInterface, ResponseClass, RequestBodyInterface, RequestParamsInterface, ResponseErrorBody> {
+  return class extends BaseRequest<boolean, ResponseErrorBody, ResponseBodyInterface, ResponseClass, RequestBodyInterface, RequestParamsInterface> {
+    protected urlParams: UrlTemplateParams<Template>
+
+    public constructor(...args: DefinedRequestArgs<Template>) {
+      super()
+
+      this.urlParams = (args[0] ?? {}) as UrlTemplateParams<Template>
+
+      if (definition.params !== undefined) {
+        this.setParams({ ...definition.params })
+      }
+    }
+
+    public method(): RequestMethodEnum {
+      return definition.method
+    }
+
+    public url(): string {
+      return UrlTemplate.expand(definition.url, this.urlParams)
+    }
+
+    public getResponse(): ResponseClass {
+      return definition.response()
+    }
+
+    public override getRequestBodyFactory(): BodyFactoryContract<RequestBodyInterface | undefined> | undefined {
+      return definition.body?.() as BodyFactoryContract<RequestBodyInterface | undefined> | undefined
+    }
+
+    public override requestHeaders(): HeadersContract {
+      return { ...super.requestHeaders(), ...definition.headers }
+    }
+  }
+}
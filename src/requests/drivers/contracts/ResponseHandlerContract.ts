@@ -7,4 +7,6 @@ export interface ResponseHandlerContract {
   json<ResponseBodyInterface>(): Promise<ResponseBodyInterface>
   text(): Promise<string>
   blob(): Promise<Blob>
+  // Returns an independent copy with an unread body. Handlers without it are copied into a FetchResponse.
+  clone?(): ResponseHandlerContract
 }
@@ -0,0 +1,68 @@
+export type FakeResourceId = number | string
+
+export class FakeResourceCollection<Resource extends { id: FakeResourceId }> {
+  protected items: Map<string, Resource> = new Map()
+  protected nextId: number = 1
+
+  public constructor(seed: Resource[] = []) {
+    seed.forEach((resource) => this.insert(resource))
+  }
+
+  public all(): Resource[] {
+    return Array.from(this.items.values())
+  }
+
+  // Route parameters are strings, so ids are compared by their string form.
+  public find(id: FakeResourceId): Resource | undefined {
+    return this.items.get(String(id))
+  }
+
+  public where(predicate: (resource: Resource) => boolean): Resource[] {
+    return this.all().filter(predicate)
+  }
+
+  public count(): number {
+    return this.items.size
+  }
+
+  public create(attributes: Omit<Resource, 'id'> & Partial<Pick<Resource, 'id'>>): Resource {
+    const resource = { ...attributes, id: attributes.id ?? this.nextId } as Resource
+
+    this.insert(resource)
+
+    return resource
+  }
+
+  public update(id: FakeResourceId, attributes: Partial<Omit<Resource, 'id'>>): Resource | undefined {
+    const current = this.find(id)
+
+    if (current === undefined) {
+      return undefined
+    }
+
+    const updated = { ...current, ...attributes, id: current.id }
+
+    this.items.set(String(id), updated)
+
+    return updated
+  }
+
+  public delete(id: FakeResourceId): boolean {
+    return this.items.delete(String(id))
+  }
+
+  public clear(): this {
+    this.items.clear()
+    this.nextId = 1
+
+    return this
+  }
+
+  protected insert(resource: Resource): void {
+    this.items.set(String(resource.id), resource)
+
+    if (typeof resource.id === 'number' && resource.id >= this.nextId) {
+      this.nextId = resource.id + 1
+    }
+  }
+}
@@ -0,0 +1,320 @@
+import qs from 'qs'
+import { ResponseException } from '../../exceptions/ResponseException'
+import { RequestAbortedException } from '../../exceptions/RequestAbortedException'
+import { findHeader, resolveHeaders, wait } from '../../support/helpers'
+import { RequestMethodEnum } from '../../RequestMethod.enum'
+import { type BodyContract } from '../../contracts/BodyContract'
+import { type DriverConfigContract } from '../../contracts/DriverConfigContract'
+import { type HeadersContract, type ResolvedHeadersContract } from '../../contracts/HeadersContract'
+import { type RequestDriverContract } from '../../contracts/RequestDriverContract'
+import { type ResponseHandlerContract } from '../contracts/ResponseHandlerContract'
+import { type MockResponseDefinition, MockResponseHandler } from '../mock/MockResponseHandler'
+import { emptyResponse, jsonResponse, validationError } from '../mock/MockRequestTestHelpers'
+import { FakeResourceCollection, type FakeResourceId } from './FakeResourceCollection'
+
+export interface FakeServerRequest {
+  method: RequestMethodEnum
+  url: URL
+  // Values of the `:name` segments in the route path.
+  params: Record<string, string>
+  query: qs.ParsedQs
+  headers: ResolvedHeadersContract
+  // Parsed JSON, URL-encoded or multipart body. Other bodies are passed through as-is.
+  body: unknown
+}
+
+export type FakeServerHandler = (request: FakeServerRequest) => MockResponseDefinition | Promise<MockResponseDefinition>
+
+export interface FakeServerDriverOptions {
+  // Stripped from the request path before matching, e.g. `/api/v1`.
+  basePath?: string
+  // Delay in milliseconds before every response.
+  delay?: number
+  pagination?: {
+    pageParam?: string
+    sizeParam?: string
+    defaultSize?: number
+  }
+}
+
+export interface FakeResourceRoutesOptions<Resource> {
+  filter?: (resource: Resource, request: FakeServerRequest) => boolean
+  // Returns Laravel-style field errors to reject a create or update with a 422 response.
+  validate?: (body: Record<string, unknown>, request: FakeServerRequest) => Record<string, string[]> | undefined
+}
+
+interface FakeServerRoute {
+  method: RequestMethodEnum
+  pattern: RegExp
+  names: string[]
+  handler: FakeServerHandler
+}
+
+export class FakeServerDriver implements RequestDriverContract {
+  protected routes: FakeServerRoute[] = []
+  protected collections: Map<string, FakeResourceCollection<{ id: FakeResourceId }>> = new Map()
+
+  public constructor(protected options: FakeServerDriverOptions = {}) {}
+
+  public get(path: string, handler: FakeServerHandler): this {
+    return this.route(RequestMethodEnum.GET, path, handler)
+  }
+
+  public post(path: string, handler: FakeServerHandler): this {
+    return this.route(RequestMethodEnum.POST, path, handler)
+  }
+
+  public put(path: string, handler: FakeServerHandler): this {
+    return this.route(RequestMethodEnum.PUT, path, handler)
+  }
+
+  public patch(path: string, handler: FakeServerHandler): this {
+    return this.route(RequestMethodEnum.PATCH, path, handler)
+  }
+
+  public delete(path: string, handler: FakeServerHandler): this {
+    return this.route(RequestMethodEnum.DELETE, path, handler)
+  }
+
+  public route(method: RequestMethodEnum, path: string, handler: FakeServerHandler): this {
+    const names: string[] = []
+    const source = this.normalizePath(path)
+      .split('/')
+      .map((segment) => {
+        if (segment.startsWith(':')) {
+          names.push(segment.slice(1))
+          return '([^/]+)'
+        }
+
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      })
+      .join('/')
+
+    this.routes.push({ method, pattern: new RegExp(`^${source}$`), names, handler })
+
+    return this
+  }
+
+  // Returns the named collection, creating it with the seed on first use.
+  public collection<Resource extends { id: FakeResourceId }>(name: string, seed: Resource[] = []): FakeResourceCollection<Resource> {
+    if (!this.collections.has(name)) {
+      this.collections.set(name, new FakeResourceCollection<Resource>(seed) as unknown as FakeResourceCollection<{ id: FakeResourceId }>)
+    }
+
+    return this.collections.get(name) as unknown as FakeResourceCollection<Resource>
+  }
+
+  // Registers index, show, store, update and destroy routes backed by a collection.
+  public resource<Resource extends { id: FakeResourceId }>(
+    path: string,
+    collection: FakeResourceCollection<Resource>,
+    options: FakeResourceRoutesOptions<Resource> = {}
+  ): this {
+    const itemPath = `${this.normalizePath(path)}/:id`
+
+    const update: FakeServerHandler = (request) => {
+      if (collection.find(request.params['id'] ?? '') === undefined) {
+        return this.notFound()
+      }
+
+      const body = this.toAttributes(request.body)
+      const errors = options.validate?.(body, request)
+
+      if (errors !== undefined) {
+        return validationError(errors)
+      }
+
+      return jsonResponse(200, { data: collection.update(request.params['id'] ?? '', body as Partial<Omit<Resource, 'id'>>) })
+    }
+
+    return this.get(path, (request) => {
+      const filter = options.filter
+      const items = filter === undefined ? collection.all() : collection.where((resource) => filter(resource, request))
+
+      return this.paginate(items, request)
+    })
+      .get(itemPath, (request) => {
+        const resource = collection.find(request.params['id'] ?? '')
+
+        return resource === undefined ? this.notFound() : jsonResponse(200, { data: resource })
+      })
+      .post(path, (request) => {
+        const body = this.toAttributes(request.body)
+        const errors = options.validate?.(body, request)
+
+        if (errors !== undefined) {
+          return validationError(errors)
+        }
+
+        return jsonResponse(201, { data: collection.create(body as Omit<Resource, 'id'>) })
+      })
+      .put(itemPath, update)
+      .patch(itemPath, update)
+      .delete(itemPath, (request) => (collection.delete(request.params['id'] ?? '') ? emptyResponse() : this.notFound()))
+  }
+
+  // Builds a Laravel-style pagination envelope, compatible with PaginationResponse.
+  public paginate<Resource>(items: Resource[], request: FakeServerRequest): MockResponseDefinition {
+    const pageParam = this.options.pagination?.pageParam ?? 'page_number'
+    const sizeParam = this.options.pagination?.sizeParam ?? 'page_size'
+    const size = Math.max(1, Number(request.query[sizeParam] ?? this.options.pagination?.defaultSize ?? 15) || 1)
+    const page = Math.max(1, Number(request.query[pageParam] ?? 1) || 1)
+    const data = items.slice((page - 1) * size, page * size)
+
+    return jsonResponse(200, {
+      data,
+      meta: {
+        total: items.length,
+        current_page: page,
+        per_page: size,
+        last_page: Math.max(1, Math.ceil(items.length / size)),
+        from: data.length === 0 ? null : (page - 1) * size + 1,
+        to: data.length === 0 ? null : (page - 1) * size + data.length
+      }
+    })
+  }
+
+  public reset(): this {
+    this.routes = []
+    this.collections.clear()
+
+    return this
+  }
+
+  public async send(
+    url: URL | string,
+    method: RequestMethodEnum,
+    headers: HeadersContract,
+    body?: BodyContract,
+    requestConfig?: DriverConfigContract
+  ): Promise<ResponseHandlerContract> {
+    if (requestConfig?.abortSignal?.aborted) {
+      throw new RequestAbortedException()
+    }
+
+    const parsedUrl = new URL(url.toString(), 'https://fake-server.invalid')
+    const resolvedHeaders = resolveHeaders({ ...headers, ...body?.getHeaders() })
+    const path = this.stripBasePath(this.normalizePath(parsedUrl.pathname))
+
+    if (this.options.delay !== undefined) {
+      await this.wait(this.options.delay, requestConfig?.abortSignal)
+    }
+
+    const response = new MockResponseHandler(await this.respond(path, method, parsedUrl, resolvedHeaders, body))
+
+    if (!response.getRawResponse().ok) {
+      throw new ResponseException(response)
+    }
+
+    return response
+  }
+
+  protected async respond(
+    path: string,
+    method: RequestMethodEnum,
+    url: URL,
+    headers: ResolvedHeadersContract,
+    body: BodyContract | undefined
+  ): Promise<MockResponseDefinition> {
+    let parsedBody: unknown
+
+    try {
+      parsedBody = this.parseBody(body, headers)
+    } catch {
+      // A malformed payload is answered like a real API would, instead of rejecting send() with a SyntaxError.
+      return this.badRequest('The request body is not valid JSON.')
+    }
+
+    return await this.handle(path, {
+      method,
+      url,
+      params: {},
+      query: qs.parse(url.search, { ignoreQueryPrefix: true }),
+      headers,
+      body: parsedBody
+    })
+  }
+
+  protected async handle(path: string, request: FakeServerRequest): Promise<MockResponseDefinition> {
+    for (const route of this.routes) {
+      const match = route.method === request.method ? route.pattern.exec(path) : null
+
+      if (match === null) {
+        continue
+      }
+
+      try {
+        route.names.forEach((name, index) => {
+          request.params[name] = decodeURIComponent(match[index + 1] ?? '')
+        })
+      } catch {
+        return this.badRequest(`Malformed URL path ${path}.`)
+      }
+
+      return await route.handler(request)
+    }
+
+    return this.notFound(`No fake route for ${request.method} ${path}.`)
+  }
+
+  protected notFound(message: string = 'Resource not found.'): MockResponseDefinition {
+    return jsonResponse(404, { message })
+  }
+
+  protected badRequest(message: string): MockResponseDefinition {
+    return jsonResponse(400, { message })
+  }
+
+  protected parseBody(body: BodyContract | undefined, headers: ResolvedHeadersContract): unknown {
+    const content = body?.getContent()
+    const contentType = (findHeader(headers, 'content-type') ?? '').toLowerCase()
+
+    if (typeof content === 'string' && contentType.includes('json')) {
+      return content.length === 0 ? undefined : JSON.parse(content)
+    }
+
+    if (typeof content === 'string' && contentType.startsWith('application/x-www-form-urlencoded')) {
+      return qs.parse(content)
+    }
+
+    // Bracket keys such as `user[name]` are expanded like Laravel does; files are kept as they are.
+    if (content instanceof FormData) {
+      const fields: Record<string, unknown> = {}
+
+      for (const [key, value] of content.entries()) {
+        const current = fields[key]
+
+        fields[key] = current === undefined ? value : ([] as unknown[]).concat(current, value)
+      }
+
+      return qs.parse(fields as Record<string, string>)
+    }
+
+    return content
+  }
+
+  protected toAttributes(body: unknown): Record<string, unknown> {
+    return body !== null && typeof body === 'object' && !Array.isArray(body) ? { ...(body as Record<string, unknown>) } : {}
+  }
+
+  protected normalizePath(path: string): string {
+    const trimmed = path.replace(/\/+$/, '')
+
+    return trimmed.startsWith('/') ? trimmed : `/${trimmed}`
+  }
+
+  protected stripBasePath(path: string): string {
+    const basePath = this.options.basePath === undefined ? '' : this.normalizePath(this.options.basePath)
+
+    // Only whole segments are stripped, so `/api/v1` leaves `/api/v10` alone.
+    if (basePath === '/' || basePath === '' || (path !== basePath && !path.startsWith(`${basePath}/`))) {
+      return path
+    }
+
+    return this.normalizePath(path.slice(basePath.length))
+  }
+
+  protected wait(delay: number, signal?: AbortSignal): Promise<void> {
+    return wait(delay, signal)
+  }
+}
@@ -1,4 +1,7 @@
 import { ResponseException } from '../../exceptions/ResponseException'
+import { TimeoutException } from '../../exceptions/TimeoutException'
+import { NetworkException } from '../../exceptions/NetworkException'
+import { RequestAbortedException } from '../../exceptions/RequestAbortedException'
 import { FetchResponse } from './FetchResponse'
 import { RequestMethodEnum } from '../../RequestMethod.enum'
 import { type HeadersContract, type HeaderValue } from '../../contracts/HeadersContract'
@@ -6,6 +9,7 @@ import { type BodyContent, type BodyContract } from '../../contracts/BodyContrac
 import { type RequestDriverContract } from '../../contracts/RequestDriverContract'
 import { type DriverConfigContract } from '../../contracts/DriverConfigContract'
 import { type ResponseHandlerContract } from '../contracts/ResponseHandlerContract'
+import { type RequestDownloadProgress } from '../../types/RequestDownloadProgress'
 
 enum FetchDriverCredentialConfigEnum {
   OMIT = 'omit',
@@ -53,7 +57,9 @@ export class FetchDriver implements RequestDriverContract {
 
     const fetchConfig = this.buildRequestConfig(mergedConfig, method, resolvedHeaders, body)
 
-    const response = await fetch(url, fetchConfig as RequestInit)
+    const fetchedResponse = await this.performFetch(url, fetchConfig, requestConfig?.timeout ?? this.config?.timeout)
+    const response =
+      mergedConfig.onDownloadProgress === undefined ? fetchedResponse : this.trackDownloadProgress(fetchedResponse, mergedConfig.onDownloadProgress)
 
     const fetchResponse = new FetchResponse(response)
 
@@ -64,6 +70,157 @@ export class FetchDriver implements RequestDriverContract {
     return fetchResponse
   }
 
+  protected async performFetch(url: URL | string, fetchConfig: FetchDriverConfig, timeout: number | undefined): Promise<Response> {
+    if (timeout === undefined || timeout <= 0) {
+      let response: Response
+
+      try {
+        response = await fetch(url, fetchConfig as RequestInit)
+      } catch (error) {
+        throw this.toDriverException(error)
+      }
+
+      // Failures while the body is read are mapped to the same exceptions as failures before the response arrived.
+      return this.watchBody(
+        response,
+        () => undefined,
+        (error) => this.toDriverException(error)
+      )
+    }
+
+    // Compose the caller's abort signal with our own timer so either one cancels the request.
+    const controller = new AbortController()
+    const abortSignal = fetchConfig.signal
+    const handleAbortSignal = () => controller.abort()
+    let timedOut = false
+
+    const timer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeout)
+
+    if (abortSignal?.aborted) {
+      controller.abort()
+    } else {
+      abortSignal?.addEventListener('abort', handleAbortSignal, { once: true })
+    }
+
+    const release = () => {
+      clearTimeout(timer)
+      abortSignal?.removeEventListener('abort', handleAbortSignal)
+    }
+
+    const toException = (error: unknown) => (timedOut ? new TimeoutException(timeout) : this.toDriverException(error))
+
+    let response: Response
+
+    try {
+      response = await fetch(url, { ...fetchConfig, signal: controller.signal } as RequestInit)
+    } catch (error) {
+      release()
+      throw toException(error)
+    }
+
+    // The timer and the caller's signal keep covering the transfer until the body is consumed or cancelled.
+    return this.watchBody(response, release, toException)
+  }
+
+  protected watchBody(response: Response, release: () => void, toException: (error: unknown) => unknown): Response {
+    if (response.body === null) {
+      release()
+      return response
+    }
+
+    const reader = response.body.getReader()
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        let result: ReadableStreamReadResult<Uint8Array>
+
+        try {
+          result = await reader.read()
+        } catch (error) {
+          release()
+          controller.error(toException(error))
+          return
+        }
+
+        if (result.done) {
+          release()
+          controller.close()
+          return
+        }
+
+        controller.enqueue(result.value)
+      },
+      cancel(reason) {
+        release()
+        return reader.cancel(reason)
+      }
+    })
+
+    return new Response(stream, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    })
+  }
+
+  protected toDriverException(error: unknown): unknown {
+    if (typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError') {
+      return new RequestAbortedException(undefined, error)
+    }
+
+    // fetch() rejects with a TypeError when the network request itself fails.
+    if (error instanceof TypeError) {
+      return new NetworkException(undefined, error)
+    }
+
+    return error
+  }
+
+  protected trackDownloadProgress(response: Response, onDownloadProgress: (progress: RequestDownloadProgress) => void): Response {
+    if (response.body === null) {
+      return response
+    }
+
+    const reader = response.body.getReader()
+    const contentLength = Number(response.headers.get('Content-Length'))
+    const total = Number.isFinite(contentLength) && contentLength > 0 ? contentLength : undefined
+    let loaded = 0
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { done, value } = await reader.read()
+
+        if (done) {
+          controller.close()
+          return
+        }
+
+        loaded += value.byteLength
+
+        onDownloadProgress({
+          loaded,
+          total,
+          lengthComputable: total !== undefined,
+          progress: total === undefined ? undefined : Math.min(1, loaded / total)
+        })
+
+        controller.enqueue(value)
+      },
+      cancel(reason) {
+        return reader.cancel(reason)
+      }
+    })
+
+    return new Response(stream, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    })
+  }
+
   protected buildRequestConfig(
     config: DriverConfigContract,
     method: RequestMethodEnum,
@@ -0,0 +1,150 @@
+import { isEqual } from 'lodash-es'
+import { CachedResponse } from '../../cache/CachedResponse'
+import { RequestMethodEnum } from '../../RequestMethod.enum'
+import { type DriverConfigContract } from '../../contracts/DriverConfigContract'
+import { type ResolvedHeadersContract } from '../../contracts/HeadersContract'
+import {
+  MockRequestDriver,
+  type MockRequestBodyMatchContext,
+  type MockRequestBodyMatcher,
+  type MockRequestDriverOptions,
+  type MockRequestExpectation,
+  type MockRequestPredicate,
+  type MockRequestQuery
+} from '../mock/MockRequestDriver'
+import { type MockResponseDefinition } from '../mock/MockResponseHandler'
+import { type Har, type HarEntry, type HarNameValue, type HarPostData, type HarResponse } from '../../types/Har'
+
+export interface HarReplayDriverOptions extends MockRequestDriverOptions {
+  config?: DriverConfigContract
+  // Request headers that must match the recording. All other headers are ignored.
+  matchHeaders?: string[]
+  // Defaults to true. When false, the query string is ignored.
+  matchQuery?: boolean
+  // Defaults to true. Multipart bodies with files are never compared.
+  matchBody?: boolean
+  // Serves every entry for any number of requests instead of exactly once.
+  repeat?: boolean
+}
+
+function createPredicate<T>(description: string, predicate: (value: T) => boolean): MockRequestPredicate<T> {
+  const matcher = ((value: T) => predicate(value)) as MockRequestPredicate<T>
+  matcher.description = description
+
+  return matcher
+}
+
+function findValue(values: HarNameValue[] | ResolvedHeadersContract, name: string): string | undefined {
+  if (Array.isArray(values)) {
+    return values.find((entry) => entry.name.toLowerCase() === name.toLowerCase())?.value
+  }
+
+  const key = Object.keys(values).find((header) => header.toLowerCase() === name.toLowerCase())
+
+  return key === undefined ? undefined : values[key]
+}
+
+export class HarReplayDriver extends MockRequestDriver {
+  public constructor(
+    har: Har | string,
+    protected replayOptions: HarReplayDriverOptions = {}
+  ) {
+    super(replayOptions.config, [], replayOptions.matchMode !== undefined ? { matchMode: replayOptions.matchMode } : {})
+
+    const log = typeof har === 'string' ? (JSON.parse(har) as Har) : har
+
+    log.log.entries.forEach((entry) => this.expect(this.toExpectation(entry)))
+  }
+
+  protected toExpectation(entry: HarEntry): MockRequestExpectation {
+    const ignoreQuery = this.replayOptions.matchQuery === false
+    // Recordings may contain relative URLs; the mock driver resolves relative request URLs against the same base.
+    const url = new URL(entry.request.url, 'https://mock-request.invalid')
+    const body = this.replayOptions.matchBody === false ? undefined : this.toBodyMatcher(entry.request.postData)
+
+    if (ignoreQuery) {
+      url.search = ''
+    }
+
+    return {
+      method: entry.request.method.toUpperCase() as RequestMethodEnum,
+      url: url.toString(),
+      ...(ignoreQuery ? { query: createPredicate<MockRequestQuery>('any query', () => true) } : {}),
+      ...(this.replayOptions.matchHeaders !== undefined ? { headers: this.toHeadersMatcher(entry, this.replayOptions.matchHeaders) } : {}),
+      ...(body !== undefined ? { body } : {}),
+      ...(this.replayOptions.repeat === true ? { times: { atLeast: 0 } } : {}),
+      response: this.toResponseDefinition(entry.response)
+    }
+  }
+
+  protected toHeadersMatcher(entry: HarEntry, names: string[]): MockRequestPredicate<ResolvedHeadersContract> {
+    const expected: Record<string, string | undefined> = {}
+
+    for (const name of names) {
+      expected[name] = findValue(entry.request.headers, name)
+    }
+
+    return createPredicate(`headers ${JSON.stringify(expected)}`, (actual) => names.every((name) => findValue(actual, name) === expected[name]))
+  }
+
+  protected toBodyMatcher(postData: HarPostData | undefined): MockRequestBodyMatcher | undefined {
+    if (postData === undefined) {
+      return undefined
+    }
+
+    if (postData.params !== undefined) {
+      if (postData.params.some((param) => param.fileName !== undefined)) {
+        return undefined
+      }
+
+      const formData = new FormData()
+
+      postData.params.forEach((param) => formData.append(param.name, param.value ?? ''))
+
+      return formData
+    }
+
+    const text = postData.text ?? ''
+
+    if (postData._encoding === 'base64') {
+      const bytes = Array.from(CachedResponse.decodeBody(text) ?? [])
+
+      return createPredicate<MockRequestBodyMatchContext>(`binary body (${bytes.length} bytes)`, (context) => {
+        return context.body?.kind === 'binary' && isEqual(context.body.bytes, bytes)
+      })
+    }
+
+    if (/^application\/x-www-form-urlencoded/i.test(postData.mimeType)) {
+      return new URLSearchParams(text)
+    }
+
+    return text
+  }
+
+  protected toResponseDefinition(response: HarResponse): MockResponseDefinition {
+    // Browsers record blocked, cancelled and failed requests with status 0.
+    if (response.status === 0) {
+      return { failure: 'network-error' }
+    }
+
+    const headers: ResolvedHeadersContract = {}
+
+    for (const { name, value } of response.headers) {
+      // The recorded body is already decoded, so these no longer describe it.
+      if (['content-encoding', 'content-length', 'transfer-encoding'].includes(name.toLowerCase())) {
+        continue
+      }
+
+      headers[name] = headers[name] === undefined ? value : `${headers[name]}, ${value}`
+    }
+
+    const text = response.content.text
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      ...(text !== undefined && text.length > 0 ? { body: response.content.encoding === 'base64' ? CachedResponse.decodeBody(text) : text } : {})
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import { ResponseException } from '../../exceptions/ResponseException'
+import { CachedResponse } from '../../cache/CachedResponse'
+import { findHeader, resolveHeaders } from '../../support/helpers'
+import { RequestMethodEnum } from '../../RequestMethod.enum'
+import { type BodyContract } from '../../contracts/BodyContract'
+import { type DriverConfigContract } from '../../contracts/DriverConfigContract'
+import { type HeadersContract, type ResolvedHeadersContract } from '../../contracts/HeadersContract'
+import { type RequestDriverContract } from '../../contracts/RequestDriverContract'
+import { type ResponseHandlerContract } from '../contracts/ResponseHandlerContract'
+import { type Har, type HarEntry, type HarNameValue, type HarPostData, type HarRequest, type HarResponse } from '../../types/Har'
+
+export interface RecordingRequestDriverOptions {
+  creator?: { name: string; version: string }
+  // Headers whose values are masked in the recording. Defaults to credentials and session cookies.
+  redactHeaders?: string[]
+}
+
+export class RecordingRequestDriver implements RequestDriverContract {
+  protected static defaultRedactHeaders: string[] = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-xsrf-token', 'x-csrf-token']
+
+  protected entries: HarEntry[] = []
+  protected pending: Set<Promise<void>> = new Set()
+
+  public constructor(
+    protected driver: RequestDriverContract,
+    protected options: RecordingRequestDriverOptions = {}
+  ) {}
+
+  public async send(
+    url: URL | string,
+    method: RequestMethodEnum,
+    headers: HeadersContract,
+    body?: BodyContract,
+    requestConfig?: DriverConfigContract
+  ): Promise<ResponseHandlerContract> {
+    const startedAt = Date.now()
+    const request = await this.toHarRequest(url, method, headers, body)
+
+    let response: ResponseHandlerContract
+
+    try {
+      response = await this.driver.send(url, method, headers, body, requestConfig)
+    } catch (error) {
+      // Drivers reject non-2xx responses, which belong in the recording too.
+      if (error instanceof ResponseException) {
+        this.record(startedAt, request, error.getResponse())
+      }
+
+      throw error
+    }
+
+    this.record(startedAt, request, response)
+
+    return response
+  }
+
+  // Waits for response bodies that are still being read, so streamed responses are complete.
+  public async getHar(): Promise<Har> {
+    await Promise.all(Array.from(this.pending))
+
+    return {
+      log: {
+        version: '1.2',
+        creator: this.options.creator ?? { name: '@blueprint-ts/core', version: 'unknown' },
+        entries: [...this.entries]
+      }
+    }
+  }
+
+  public getEntries(): HarEntry[] {
+    return [...this.entries]
+  }
+
+  public clear(): this {
+    this.entries = []
+
+    return this
+  }
+
+  protected record(startedAt: number, request: HarRequest, response: ResponseHandlerContract): void {
+    const time = Date.now() - startedAt
+    const entry: HarEntry = {
+      startedDateTime: new Date(startedAt).toISOString(),
+      time,
+      request,
+      response: this.toHarResponse(response),
+      cache: {},
+      timings: { send: 0, wait: time, receive: 0 }
+    }
+
+    this.entries.push(entry)
+
+    // The body is read from a clone in the background so the caller is not blocked until a stream ends.
+    const reading = this.readContent(entry.response, response.getRawResponse().clone())
+      .catch((error) => console.warn('@blueprint-ts/core: Could not record the response body.', error))
+      .then(() => {
+        this.pending.delete(reading)
+      })
+
+    this.pending.add(reading)
+  }
+
+  protected async toHarRequest(url: URL | string, method: RequestMethodEnum, headers: HeadersContract, body?: BodyContract): Promise<HarRequest> {
+    const resolvedHeaders = resolveHeaders({ ...headers, ...body?.getHeaders() })
+    const parsedUrl = new URL(url.toString(), 'https://recorded-request.invalid')
+    const postData = [RequestMethodEnum.GET, RequestMethodEnum.HEAD].includes(method) ? undefined : await this.toPostData(body, resolvedHeaders)
+
+    return {
+      method,
+      url: url.toString(),
+      httpVersion: 'HTTP/1.1',
+      headers: this.toNameValues(resolvedHeaders),
+      queryString: Array.from(parsedUrl.searchParams.entries()).map(([name, value]) => ({ name, value })),
+      cookies: [],
+      headersSize: -1,
+      bodySize: this.getBodySize(postData),
+      ...(postData !== undefined ? { postData } : {})
+    }
+  }
+
+  protected getBodySize(postData: HarPostData | undefined): number {
+    if (postData === undefined) {
+      return 0
+    }
+
+    return postData.text !== undefined && postData._encoding === undefined ? postData.text.length : -1
+  }
+
+  protected async toPostData(body: BodyContract | undefined, headers: ResolvedHeadersContract): Promise<HarPostData | undefined> {
+    const content = body?.getContent()
+    const mimeType = findHeader(headers, 'content-type') ?? ''
+
+    if (content === undefined) {
+      return undefined
+    }
+
+    if (typeof content === 'string') {
+      return { mimeType, text: content }
+    }
+
+    if (content instanceof FormData) {
+      const params = Array.from(content.entries()).map(([name, value]) => {
+        if (typeof value === 'string') {
+          return { name, value }
+        }
+
+        // File contents are not part of the recording.
+        return { name, fileName: value instanceof File ? value.name : 'blob', contentType: value.type }
+      })
+
+      return { mimeType: 'multipart/form-data', params }
+    }
+
+    if (content instanceof Blob) {
+      return { mimeType: content.type || mimeType, text: CachedResponse.encodeBody(await content.arrayBuffer()), _encoding: 'base64' }
+    }
+
+    const buffer = content instanceof ArrayBuffer ? content : content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength)
+
+    return { mimeType, text: CachedResponse.encodeBody(buffer as ArrayBuffer), _encoding: 'base64' }
+  }
+
+  protected toHarResponse(response: ResponseHandlerContract): HarResponse {
+    const raw = response.getRawResponse()
+    const headers = response.getHeaders()
+
+    return {
+      status: response.getStatusCode() ?? raw.status,
+      statusText: raw.statusText,
+      httpVersion: 'HTTP/1.1',
+      headers: this.toNameValues(headers),
+      cookies: [],
+      content: { size: 0, mimeType: findHeader(headers, 'content-type') ?? '' },
+      redirectURL: findHeader(headers, 'location') ?? '',
+      headersSize: -1,
+      bodySize: -1
+    }
+  }
+
+  protected async readContent(response: HarResponse, raw: Response): Promise<void> {
+    const buffer = await raw.arrayBuffer()
+
+    response.content.size = buffer.byteLength
+    response.bodySize = buffer.byteLength
+
+    if (buffer.byteLength === 0) {
+      return
+    }
+
+    if (this.isTextMimeType(response.content.mimeType)) {
+      response.content.text = new TextDecoder().decode(buffer)
+      return
+    }
+
+    response.content.text = CachedResponse.encodeBody(buffer)
+    response.content.encoding = 'base64'
+  }
+
+  protected isTextMimeType(mimeType: string): boolean {
+    return /^text\/|json|xml|javascript|x-www-form-urlencoded/i.test(mimeType)
+  }
+
+  protected toNameValues(headers: ResolvedHeadersContract): HarNameValue[] {
+    const redacted = (this.options.redactHeaders ?? RecordingRequestDriver.defaultRedactHeaders).map((header) => header.toLowerCase())
+
+    // Recordings end up in committed fixtures, so live credentials must not be written into them.
+    return Object.keys(headers).map((name) => ({ name, value: redacted.includes(name.toLowerCase()) ? '[REDACTED]' : (headers[name] as string) }))
+  }
+}
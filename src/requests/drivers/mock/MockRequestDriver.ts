@@ -1,16 +1,24 @@
 import { ResponseException } from '../../exceptions/ResponseException'
+import { RequestAbortedException } from '../../exceptions/RequestAbortedException'
+import { findHeader, resolveHeaders, wait } from '../../support/helpers'
+import { NetworkException } from '../../exceptions/NetworkException'
+import { TimeoutException } from '../../exceptions/TimeoutException'
 import { isEqual } from 'lodash-es'
+import { isPlainObject } from '../../../support/helpers'
 import { type BodyContent, type BodyContract } from '../../contracts/BodyContract'
 import { type DriverConfigContract } from '../../contracts/DriverConfigContract'
-import { type HeaderValue, type HeadersContract, type ResolvedHeadersContract } from '../../contracts/HeadersContract'
+import { type HeadersContract, type ResolvedHeadersContract } from '../../contracts/HeadersContract'
 import { type RequestDriverContract } from '../../contracts/RequestDriverContract'
 import { RequestMethodEnum } from '../../RequestMethod.enum'
 import { type ResponseHandlerContract } from '../contracts/ResponseHandlerContract'
+import { type RequestUploadProgress } from '../../types/RequestUploadProgress'
 import { MockRequestAssertionError } from './MockRequestAssertionError'
-import { type MockResponseBody, type MockResponseDefinition, MockResponseHandler } from './MockResponseHandler'
+import { type MockRequestFailure, type MockResponseBody, type MockResponseDefinition, MockResponseHandler } from './MockResponseHandler'
 
-export type MockRequestBody = BodyContent | Record<string, unknown> | unknown[] | null | undefined
+export type MockRequestBody = BodyContent | URLSearchParams | Record<string, unknown> | unknown[] | null | undefined
 export type MockRequestMatchMode = 'ordered' | 'unordered'
+// An exact number of calls, or a minimum with no upper bound. Expectations match once by default.
+export type MockRequestTimes = number | { atLeast: number }
 export type MockRequestPredicate<T> = ((value: T) => boolean) & {
   description?: string
 }
@@ -30,9 +38,13 @@ export interface MockRequestBodyMatchContext {
   body?: MockNormalizedRequestBody
   getJson<T>(): T | undefined
   getText(): string | undefined
+  getForm(): MockRequestQuery | undefined
   getQuery(): MockRequestQuery
 }
 
+// Builds the response from the normalized request, e.g. to echo the JSON body back.
+export type MockResponseFactory = (request: MockRequestBodyMatchContext) => MockResponseDefinition | Promise<MockResponseDefinition>
+
 export type MockRequestMethodMatcher = RequestMethodEnum | MockRequestPredicate<RequestMethodEnum>
 export type MockRequestUrlMatcher = URL | string | MockRequestPredicate<URL>
 export type MockRequestHeadersMatcher = HeadersContract | ResolvedHeadersContract | MockRequestPredicate<ResolvedHeadersContract>
@@ -45,7 +57,10 @@ export interface MockRequestExpectation {
   headers?: MockRequestHeadersMatcher
   query?: MockRequestQueryMatcher
   body?: MockRequestBodyMatcher
-  response: MockResponseDefinition
+  times?: MockRequestTimes
+  delay?: number
+  uploadProgress?: RequestUploadProgress[]
+  response: MockResponseDefinition | MockResponseFactory
 }
 
 export interface MockRequestExpectationCriteria {
@@ -54,12 +69,16 @@ export interface MockRequestExpectationCriteria {
   headers?: MockRequestHeadersMatcher
   query?: MockRequestQueryMatcher
   body?: MockRequestBodyMatcher
+  times?: MockRequestTimes
+  delay?: number
+  uploadProgress?: RequestUploadProgress[]
 }
 
 export type MockNormalizedRequestBody =
   | { kind: 'text'; value: string }
   | { kind: 'binary'; mimeType?: string; bytes: number[] }
   | { kind: 'form-data'; entries: MockNormalizedFormDataEntry[] }
+  | { kind: 'url-encoded'; value: string; fields: MockRequestQuery }
   | { kind: 'null' }
 
 export interface MockNormalizedFormDataEntry {
@@ -113,9 +132,13 @@ function buildUrlWithoutQuery(url: URL): string {
 }
 
 function parseQuery(url: URL): MockRequestQuery {
+  return parseSearchParams(url.searchParams)
+}
+
+function parseSearchParams(params: URLSearchParams): MockRequestQuery {
   const query: MockRequestQuery = {}
 
-  for (const [key, value] of url.searchParams.entries()) {
+  for (const [key, value] of params.entries()) {
     const current = query[key]
 
     if (current === undefined) {
@@ -150,6 +173,18 @@ function getTextBody(body?: MockNormalizedRequestBody): string | undefined {
   return body.value
 }
 
+function getFormBody(body?: MockNormalizedRequestBody): MockRequestQuery | undefined {
+  if (!body || body.kind !== 'url-encoded') {
+    return undefined
+  }
+
+  return body.fields
+}
+
+function isUrlEncodedContentType(contentType: string | undefined): boolean {
+  return contentType !== undefined && contentType.toLowerCase().startsWith('application/x-www-form-urlencoded')
+}
+
 function getJsonBody<T>(body?: MockNormalizedRequestBody): T | undefined {
   const textBody = getTextBody(body)
 
@@ -243,7 +278,35 @@ export class MockRequestExpectationBuilder {
     return this
   }
 
-  public respond(response: MockResponseDefinition): MockRequestDriver {
+  public times(count: number): this {
+    this.criteria.times = count
+
+    return this
+  }
+
+  public atLeast(count: number): this {
+    this.criteria.times = { atLeast: count }
+
+    return this
+  }
+
+  public always(): this {
+    return this.atLeast(0)
+  }
+
+  public delay(milliseconds: number): this {
+    this.criteria.delay = milliseconds
+
+    return this
+  }
+
+  public withUploadProgress(steps: RequestUploadProgress[]): this {
+    this.criteria.uploadProgress = steps
+
+    return this
+  }
+
+  public respond(response: MockResponseDefinition | MockResponseFactory): MockRequestDriver {
     this.driver.expect({
       ...this.criteria,
       response
@@ -255,6 +318,8 @@ export class MockRequestExpectationBuilder {
 
 export class MockRequestDriver implements RequestDriverContract {
   protected expectations: MockRequestExpectation[] = []
+  protected calls: Map<MockRequestExpectation, number> = new Map()
+  protected fallbackResponse: MockResponseDefinition | MockResponseFactory | undefined
   protected history: MockRequestHistoryEntry[] = []
   protected matchMode: MockRequestMatchMode
 
@@ -263,7 +328,7 @@ export class MockRequestDriver implements RequestDriverContract {
     expectations: MockRequestExpectation[] = [],
     options: MockRequestDriverOptions = {}
   ) {
-    this.expectations.push(...expectations)
+    expectations.forEach((expectation) => this.expect(expectation))
     this.matchMode = options.matchMode ?? 'ordered'
   }
 
@@ -282,7 +347,15 @@ export class MockRequestDriver implements RequestDriverContract {
   }
 
   public expect(expectation: MockRequestExpectation): this {
-    this.expectations.push(expectation)
+    // Copy so that call counts stay separate when the same object is queued twice.
+    this.expectations.push({ ...expectation })
+
+    return this
+  }
+
+  // Answers requests that match no pending expectation instead of failing them.
+  public fallback(response: MockResponseDefinition | MockResponseFactory | undefined): this {
+    this.fallbackResponse = response
 
     return this
   }
@@ -293,6 +366,8 @@ export class MockRequestDriver implements RequestDriverContract {
 
   public reset(): this {
     this.expectations = []
+    this.calls.clear()
+    this.fallbackResponse = undefined
     this.history = []
 
     return this
@@ -307,21 +382,20 @@ export class MockRequestDriver implements RequestDriverContract {
   }
 
   public assertExpectationsMet(): void {
-    if (this.expectations.length === 0) {
-      return
-    }
-
-    const nextExpectation = this.expectations[0]
+    const pending = this.expectations.filter((expectation) => !this.isSatisfied(expectation))
+    const nextExpectation = pending[0]
 
     if (!nextExpectation) {
       return
     }
 
+    const remaining = pending.reduce((sum, expectation) => sum + this.getMinimumCalls(expectation) - this.getCallCount(expectation), 0)
+
     throw new MockRequestAssertionError(
       [
-        `Expected ${this.expectations.length} more mocked request(s).`,
+        `Expected ${remaining} more mocked request(s).`,
         `Match mode: ${this.matchMode}`,
-        `Next expected request: ${this.describeExpectation(nextExpectation)}`
+        `Next expected request: ${this.describeExpectation(nextExpectation)}${this.describeCalls(nextExpectation)}`
       ].join('\n')
     )
   }
@@ -334,16 +408,39 @@ export class MockRequestDriver implements RequestDriverContract {
     requestConfig?: DriverConfigContract
   ): Promise<ResponseHandlerContract> {
     if (requestConfig?.abortSignal?.aborted) {
-      throw new DOMException('The operation was aborted.', 'AbortError')
+      throw new RequestAbortedException()
     }
 
     const actualRequest = await this.normalizeActualRequest(url, method, headers, body)
-    const { index, expectation } = await this.selectExpectation(actualRequest)
+    let expectation = await this.selectExpectation(actualRequest)
+
+    // A concurrent send may have used up the selected expectation while the matchers were awaited.
+    while (expectation !== undefined && !this.recordCall(expectation)) {
+      expectation = await this.selectExpectation(actualRequest)
+    }
 
-    this.expectations.splice(index, 1)
     this.history.push(this.toHistoryEntry(actualRequest))
 
-    const response = new MockResponseHandler(expectation.response)
+    if (expectation?.uploadProgress !== undefined) {
+      await this.reportUploadProgress(expectation.uploadProgress, requestConfig)
+    }
+
+    if (expectation?.delay !== undefined) {
+      await this.wait(expectation.delay, requestConfig?.abortSignal)
+    }
+
+    const definition = await this.resolveResponse(expectation?.response ?? this.fallbackResponse ?? {}, actualRequest)
+
+    // The signal may fire while an async response factory is running.
+    if (requestConfig?.abortSignal?.aborted) {
+      throw new RequestAbortedException()
+    }
+
+    if (definition.failure !== undefined) {
+      throw this.createFailure(definition.failure, requestConfig)
+    }
+
+    const response = new MockResponseHandler(definition)
 
     if (!response.getRawResponse().ok) {
       throw new ResponseException(response)
@@ -352,42 +449,122 @@ export class MockRequestDriver implements RequestDriverContract {
     return response
   }
 
-  protected async selectExpectation(actualRequest: NormalizedMockRequest): Promise<{ index: number; expectation: MockRequestExpectation }> {
-    if (this.expectations.length === 0) {
-      throw new MockRequestAssertionError(this.buildUnexpectedRequestMessage(actualRequest))
+  protected async resolveResponse(
+    response: MockResponseDefinition | MockResponseFactory,
+    actualRequest: NormalizedMockRequest
+  ): Promise<MockResponseDefinition> {
+    if (typeof response === 'function') {
+      return await response(this.createBodyMatchContext(actualRequest))
     }
 
-    if (this.matchMode === 'ordered') {
-      const expectation = this.expectations[0]
+    return response
+  }
 
-      if (!expectation) {
-        throw new MockRequestAssertionError(this.buildUnexpectedRequestMessage(actualRequest))
-      }
+  protected async reportUploadProgress(steps: RequestUploadProgress[], requestConfig?: DriverConfigContract): Promise<void> {
+    const onUploadProgress = requestConfig?.onUploadProgress ?? this.config?.onUploadProgress
 
-      const failure = await this.matchExpectation(expectation, actualRequest)
+    for (const step of steps) {
+      onUploadProgress?.(step)
 
-      if (failure) {
-        throw new MockRequestAssertionError(this.buildMismatchMessage(failure, actualRequest))
-      }
+      // Yield between events so a handler can abort the upload partway through.
+      await this.wait(0, requestConfig?.abortSignal)
+    }
+  }
 
-      return { index: 0, expectation }
+  protected createFailure(failure: MockRequestFailure, requestConfig?: DriverConfigContract): Error {
+    switch (failure) {
+      case 'network-error':
+        return new NetworkException()
+      case 'no-response':
+        return new NetworkException('No response received.')
+      case 'timeout':
+        return new TimeoutException(requestConfig?.timeout ?? this.config?.timeout ?? 0)
+      case 'abort':
+        return new RequestAbortedException()
     }
+  }
+
+  protected wait(delay: number, signal?: AbortSignal): Promise<void> {
+    return wait(delay, signal)
+  }
 
+  // Resolves to undefined when nothing matched and the fallback response should be used.
+  protected async selectExpectation(actualRequest: NormalizedMockRequest): Promise<MockRequestExpectation | undefined> {
     const failures: MockRequestMatchFailure[] = []
 
-    for (const [index, expectation] of this.expectations.entries()) {
+    // Iterate over a copy, concurrent sends may remove used up expectations in the meantime.
+    for (const expectation of [...this.expectations]) {
       const failure = await this.matchExpectation(expectation, actualRequest)
 
       if (!failure) {
-        return { index, expectation }
+        return expectation
       }
 
       failures.push(failure)
+
+      // In ordered mode, only expectations that already met their minimum can be passed over.
+      if (this.matchMode === 'ordered' && !this.isSatisfied(expectation)) {
+        break
+      }
+    }
+
+    if (this.fallbackResponse !== undefined) {
+      return undefined
+    }
+
+    const firstFailure = failures[0]
+
+    if (!firstFailure) {
+      throw new MockRequestAssertionError(this.buildUnexpectedRequestMessage(actualRequest))
+    }
+
+    if (this.matchMode === 'ordered') {
+      throw new MockRequestAssertionError(this.buildMismatchMessage(firstFailure, actualRequest))
     }
 
     throw new MockRequestAssertionError(this.buildUnorderedMismatchMessage(actualRequest, failures))
   }
 
+  // Returns false when the expectation has no calls left, so the caller can select the next match.
+  protected recordCall(expectation: MockRequestExpectation): boolean {
+    const index = this.expectations.indexOf(expectation)
+    const calls = this.getCallCount(expectation) + 1
+    const maximum = this.getMaximumCalls(expectation)
+
+    if (index === -1 || (maximum !== undefined && calls > maximum)) {
+      return false
+    }
+
+    this.calls.set(expectation, calls)
+
+    if (maximum !== undefined && calls >= maximum) {
+      this.expectations.splice(index, 1)
+      this.calls.delete(expectation)
+    }
+
+    return true
+  }
+
+  protected getCallCount(expectation: MockRequestExpectation): number {
+    return this.calls.get(expectation) ?? 0
+  }
+
+  protected getMinimumCalls(expectation: MockRequestExpectation): number {
+    const times = expectation.times ?? 1
+
+    return typeof times === 'number' ? times : times.atLeast
+  }
+
+  protected getMaximumCalls(expectation: MockRequestExpectation): number | undefined {
+    const times = expectation.times ?? 1
+
+    return typeof times === 'number' ? times : undefined
+  }
+
+  protected isSatisfied(expectation: MockRequestExpectation): boolean {
+    return this.getCallCount(expectation) >= this.getMinimumCalls(expectation)
+  }
+
   protected async matchExpectation(
     expectation: MockRequestExpectation,
     actualRequest: NormalizedMockRequest
@@ -507,7 +684,7 @@ export class MockRequestDriver implements RequestDriverContract {
       }
     }
 
-    const expectedHeaders = this.resolveHeaders(headers)
+    const expectedHeaders = resolveHeaders(headers)
 
     if (isEqual(expectedHeaders, actualRequest.headers)) {
       return undefined
@@ -583,12 +760,43 @@ export class MockRequestDriver implements RequestDriverContract {
       }
     }
 
+    const actualForm = getFormBody(actualRequest.body)
+
+    // URL-encoded bodies can be expected as plain field objects, e.g. `{ grant_type: 'password' }`.
+    if (actualForm !== undefined && isPlainObject(body)) {
+      if (isEqual(body, actualForm)) {
+        return undefined
+      }
+
+      return {
+        field: 'body',
+        message: 'Form body did not match.',
+        expectation,
+        expectedValue: body,
+        actualValue: actualForm,
+        diffPaths: collectJsonDiffPaths(body, actualForm)
+      }
+    }
+
     const expectedBody = await this.normalizeBody(body)
 
     if (JSON.stringify(expectedBody) === JSON.stringify(actualRequest.body)) {
       return undefined
     }
 
+    const expectedForm = getFormBody(expectedBody)
+
+    if (expectedForm !== undefined && actualForm !== undefined) {
+      return {
+        field: 'body',
+        message: 'Form body did not match.',
+        expectation,
+        expectedValue: expectedForm,
+        actualValue: actualForm,
+        diffPaths: collectJsonDiffPaths(expectedForm, actualForm)
+      }
+    }
+
     const expectedJson = getJsonBody(expectedBody)
     const actualJson = getJsonBody(actualRequest.body)
 
@@ -610,6 +818,7 @@ export class MockRequestDriver implements RequestDriverContract {
       ...(actualRequest.body !== undefined ? { body: actualRequest.body } : {}),
       getJson: <T>() => getJsonBody<T>(actualRequest.body),
       getText: () => getTextBody(actualRequest.body),
+      getForm: () => getFormBody(actualRequest.body),
       getQuery: () => actualRequest.query
     }
   }
@@ -621,18 +830,19 @@ export class MockRequestDriver implements RequestDriverContract {
     body?: BodyContract
   ): Promise<NormalizedMockRequest> {
     const resolvedUrl = parseUrl(url)
-    const normalizedBody = await this.normalizeBody(body?.getContent())
+    const resolvedHeaders = resolveHeaders({
+      ...this.config?.headers,
+      ...headers,
+      ...body?.getHeaders()
+    })
+    const normalizedBody = await this.normalizeBody(body?.getContent(), findHeader(resolvedHeaders, 'content-type'))
 
     return {
       method,
       url: this.normalizeUrl(url),
       urlWithoutQuery: buildUrlWithoutQuery(resolvedUrl),
       parsedUrl: resolvedUrl,
-      headers: this.resolveHeaders({
-        ...this.config?.headers,
-        ...headers,
-        ...body?.getHeaders()
-      }),
+      headers: resolvedHeaders,
       query: parseQuery(resolvedUrl),
       ...(normalizedBody !== undefined ? { body: normalizedBody } : {})
     }
@@ -652,7 +862,9 @@ export class MockRequestDriver implements RequestDriverContract {
   }
 
   protected buildUnorderedMismatchMessage(actualRequest: NormalizedMockRequest, failures: MockRequestMatchFailure[]): string {
-    const pending = this.expectations.map((expectation, index) => `${index + 1}. ${this.describeExpectation(expectation)}`).join('\n')
+    const pending = this.expectations
+      .map((expectation, index) => `${index + 1}. ${this.describeExpectation(expectation)}${this.describeCalls(expectation)}`)
+      .join('\n')
     const firstFailure = failures[0]
 
     return [
@@ -705,6 +917,18 @@ export class MockRequestDriver implements RequestDriverContract {
       lines.push(`body: ${this.describeBodyMatcher(expectation.body)}`)
     }
 
+    if (expectation.times !== undefined) {
+      lines.push(`times: ${this.describeTimes(expectation.times)}, matched ${this.getCallCount(expectation)}`)
+    }
+
+    if (expectation.delay !== undefined) {
+      lines.push(`delay: ${expectation.delay}ms`)
+    }
+
+    if (typeof expectation.response !== 'function' && expectation.response.failure !== undefined) {
+      lines.push(`failure: ${expectation.response.failure}`)
+    }
+
     return lines.join('\n')
   }
 
@@ -724,6 +948,18 @@ export class MockRequestDriver implements RequestDriverContract {
     return `${this.describeMatcher(expectation.method)} ${this.describeUrlMatcher(expectation)}`
   }
 
+  protected describeCalls(expectation: MockRequestExpectation): string {
+    if (expectation.times === undefined) {
+      return ''
+    }
+
+    return ` (matched ${this.getCallCount(expectation)} of ${this.describeTimes(expectation.times)})`
+  }
+
+  protected describeTimes(times: MockRequestTimes): string {
+    return typeof times === 'number' ? `${times} time(s)` : `at least ${times.atLeast} time(s)`
+  }
+
   protected describeMatcher(matcher: unknown): string {
     if (isPredicate<unknown>(matcher)) {
       return getPredicateDescription(matcher)
@@ -761,30 +997,14 @@ export class MockRequestDriver implements RequestDriverContract {
   protected describeBodyForMessage(body?: MockNormalizedRequestBody): unknown {
     const json = getJsonBody(body)
 
-    return json ?? body
+    return json ?? getFormBody(body) ?? body
   }
 
   protected normalizeUrl(url: URL | string): string {
     return parseUrl(url).toString()
   }
 
-  protected resolveHeaders(headers: HeadersContract | ResolvedHeadersContract): ResolvedHeadersContract {
-    const resolved: ResolvedHeadersContract = {}
-
-    for (const key in headers) {
-      const value: HeaderValue | string | undefined = headers[key]
-
-      if (value === undefined) {
-        continue
-      }
-
-      resolved[key] = typeof value === 'function' ? value() : value
-    }
-
-    return resolved
-  }
-
-  protected async normalizeBody(body: MockRequestBody): Promise<MockNormalizedRequestBody | undefined> {
+  protected async normalizeBody(body: MockRequestBody, contentType?: string): Promise<MockNormalizedRequestBody | undefined> {
     if (body === undefined) {
       return undefined
     }
@@ -793,10 +1013,18 @@ export class MockRequestDriver implements RequestDriverContract {
       return { kind: 'null' }
     }
 
+    if (typeof body === 'string' && isUrlEncodedContentType(contentType)) {
+      return this.normalizeUrlEncoded(new URLSearchParams(body))
+    }
+
     if (typeof body === 'string') {
       return { kind: 'text', value: body }
     }
 
+    if (body instanceof URLSearchParams) {
+      return this.normalizeUrlEncoded(body)
+    }
+
     if (body instanceof FormData) {
       return await this.normalizeFormData(body)
     }
@@ -824,6 +1052,10 @@ export class MockRequestDriver implements RequestDriverContract {
     }
   }
 
+  protected normalizeUrlEncoded(params: URLSearchParams): MockNormalizedRequestBody {
+    return { kind: 'url-encoded', value: params.toString(), fields: parseSearchParams(params) }
+  }
+
   protected async normalizeFormData(body: FormData): Promise<MockNormalizedRequestBody> {
     const entries: MockNormalizedFormDataEntry[] = []
 
@@ -899,7 +1131,7 @@ export class MockRequestDriver implements RequestDriverContract {
   }
 }
 
-export type { MockResponseBody, MockResponseDefinition }
+export type { MockRequestFailure, MockResponseBody, MockResponseDefinition }
 
 export function getMockRequestJsonBody<T>(request: Pick<MockRequestHistoryEntry, 'body'>): T | undefined {
   return getJsonBody<T>(request.body)
@@ -909,6 +1141,10 @@ export function getMockRequestTextBody(request: Pick<MockRequestHistoryEntry, 'b
   return getTextBody(request.body)
 }
 
+export function getMockRequestFormBody(request: Pick<MockRequestHistoryEntry, 'body'>): MockRequestQuery | undefined {
+  return getFormBody(request.body)
+}
+
 export function getMockRequestQuery(request: Pick<MockRequestHistoryEntry, 'url'>): MockRequestQuery {
   return parseQuery(parseUrl(request.url))
 }
@@ -11,11 +11,13 @@ import {
   type MockRequestHistoryEntry,
   type MockRequestPredicate,
   type MockRequestQuery,
+  getMockRequestFormBody,
   getMockRequestJsonBody,
   getMockRequestQuery,
   getMockRequestTextBody
 } from './MockRequestDriver'
 import { type MockResponseDefinition } from './MockResponseHandler'
+import { type RequestUploadProgress } from '../../types/RequestUploadProgress'
 
 export interface InstallMockRequestDriverOptions extends MockRequestDriverOptions {
   config?: DriverConfigContract
@@ -77,6 +79,18 @@ export function expectJsonBody(expected: unknown, options: { partial?: boolean }
   })
 }
 
+export function expectFormBody(expected: MockRequestQuery, options: { partial?: boolean } = {}): MockRequestPredicate<MockRequestBodyMatchContext> {
+  return createPredicate(options.partial ? `form body partial ${JSON.stringify(expected)}` : `form body ${JSON.stringify(expected)}`, (context) => {
+    const actual = context.getForm()
+
+    if (actual === undefined) {
+      return false
+    }
+
+    return options.partial ? matchesSubset(actual, expected) : isEqual(actual, expected)
+  })
+}
+
 export function jsonResponse<ResponseBody extends object | string | Blob | BufferSource | null | undefined>(
   status: number,
   body: ResponseBody,
@@ -103,6 +117,31 @@ export function emptyResponse(status = 204, headers?: ResolvedHeadersContract):
   }
 }
 
+export function networkError(): MockResponseDefinition {
+  return { failure: 'network-error' }
+}
+
+export function noResponse(): MockResponseDefinition {
+  return { failure: 'no-response' }
+}
+
+export function timeoutError(): MockResponseDefinition {
+  return { failure: 'timeout' }
+}
+
+export function abortedRequest(): MockResponseDefinition {
+  return { failure: 'abort' }
+}
+
+export function uploadProgress(total: number, loaded: number[]): RequestUploadProgress[] {
+  return loaded.map((bytes) => ({
+    loaded: bytes,
+    total,
+    lengthComputable: true,
+    progress: total === 0 ? undefined : bytes / total
+  }))
+}
+
 let installedMockRequestDriver: MockRequestDriver | undefined
 
 export function installMockRequestDriver(options: InstallMockRequestDriverOptions = {}): MockRequestDriver {
@@ -129,5 +168,5 @@ export function resetMockRequestDriver(): MockRequestDriver {
   return installedMockRequestDriver
 }
 
-export { getMockRequestJsonBody, getMockRequestTextBody, getMockRequestQuery }
+export { getMockRequestJsonBody, getMockRequestTextBody, getMockRequestFormBody, getMockRequestQuery }
 export type { MockNormalizedRequestBody, MockRequestHistoryEntry }
@@ -3,7 +3,11 @@ import { type ResponseHandlerContract } from '../contracts/ResponseHandlerContra
 
 export type MockResponseBody = string | Blob | BufferSource | object | null | undefined
 
+// Transport failures raised instead of a response, mirroring XMLHttpRequestDriver.
+export type MockRequestFailure = 'network-error' | 'no-response' | 'timeout' | 'abort'
+
 export interface MockResponseDefinition {
+  failure?: MockRequestFailure
   status?: number
   statusText?: string
   headers?: ResolvedHeadersContract
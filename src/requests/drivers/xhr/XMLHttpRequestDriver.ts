@@ -1,9 +1,13 @@
 import { ResponseException } from '../../exceptions/ResponseException'
+import { TimeoutException } from '../../exceptions/TimeoutException'
+import { NetworkException } from '../../exceptions/NetworkException'
+import { RequestAbortedException } from '../../exceptions/RequestAbortedException'
 import { RequestMethodEnum } from '../../RequestMethod.enum'
 import { type HeadersContract, type HeaderValue } from '../../contracts/HeadersContract'
 import { type BodyContract } from '../../contracts/BodyContract'
 import { type RequestDriverContract } from '../../contracts/RequestDriverContract'
 import { type DriverConfigContract } from '../../contracts/DriverConfigContract'
+import { type RequestUploadProgress } from '../../types/RequestUploadProgress'
 import { type ResponseHandlerContract } from '../contracts/ResponseHandlerContract'
 import { XMLHttpRequestResponse } from './XMLHttpRequestResponse'
 
@@ -28,6 +32,11 @@ export class XMLHttpRequestDriver implements RequestDriverContract {
       ...body?.getHeaders()
     }
 
+    // Aborting an XHR that was never sent fires no events, so an already-aborted signal must be handled up front.
+    if (mergedConfig.abortSignal?.aborted) {
+      throw new RequestAbortedException()
+    }
+
     const resolvedHeaders = this.resolveHeaders(mergedHeaders)
 
     return await new Promise<ResponseHandlerContract>((resolve, reject) => {
@@ -35,12 +44,15 @@ export class XMLHttpRequestDriver implements RequestDriverContract {
       const requestUrl = url instanceof URL ? url.toString() : url
       const requestBody = [RequestMethodEnum.GET, RequestMethodEnum.HEAD].includes(method) ? undefined : body?.getContent()
       const abortSignal = mergedConfig.abortSignal
+      const timeout = requestConfig?.timeout ?? this.config?.timeout
       const handleAbortSignal = () => request.abort()
 
       const cleanup = () => {
         request.onload = null
         request.onerror = null
         request.onabort = null
+        request.ontimeout = null
+        request.onprogress = null
 
         if (request.upload) {
           request.upload.onprogress = null
@@ -53,6 +65,10 @@ export class XMLHttpRequestDriver implements RequestDriverContract {
       request.responseType = 'blob'
       request.withCredentials = this.getCorsWithCredentials(mergedConfig.corsWithCredentials)
 
+      if (timeout !== undefined && timeout > 0) {
+        request.timeout = timeout
+      }
+
       for (const key in resolvedHeaders) {
         request.setRequestHeader(key, resolvedHeaders[key] as string)
       }
@@ -61,7 +77,7 @@ export class XMLHttpRequestDriver implements RequestDriverContract {
         cleanup()
 
         if (request.status === 0) {
-          reject(new Error('No response received.'))
+          reject(new NetworkException('No response received.'))
           return
         }
 
@@ -77,30 +93,27 @@ export class XMLHttpRequestDriver implements RequestDriverContract {
 
       request.onerror = () => {
         cleanup()
-        reject(new Error('Network request failed.'))
+        reject(new NetworkException())
       }
 
       request.onabort = () => {
         cleanup()
-        reject(new DOMException('The operation was aborted.', 'AbortError'))
+        reject(new RequestAbortedException())
+      }
+
+      request.ontimeout = () => {
+        cleanup()
+        reject(new TimeoutException(timeout ?? request.timeout))
       }
 
       if (request.upload) {
         request.upload.onprogress = (event: ProgressEvent<EventTarget>) => {
-          const total = event.lengthComputable ? event.total : undefined
-
-          mergedConfig.onUploadProgress?.({
-            loaded: event.loaded,
-            total: total,
-            lengthComputable: event.lengthComputable,
-            progress: total === undefined || total === 0 ? undefined : event.loaded / total
-          })
+          mergedConfig.onUploadProgress?.(this.toProgress(event))
         }
       }
 
-      if (abortSignal?.aborted) {
-        handleAbortSignal()
-        return
+      request.onprogress = (event: ProgressEvent<EventTarget>) => {
+        mergedConfig.onDownloadProgress?.(this.toProgress(event))
       }
 
       abortSignal?.addEventListener('abort', handleAbortSignal, { once: true })
@@ -108,6 +121,17 @@ export class XMLHttpRequestDriver implements RequestDriverContract {
     })
   }
 
+  protected toProgress(event: ProgressEvent<EventTarget>): RequestUploadProgress {
+    const total = event.lengthComputable ? event.total : undefined
+
+    return {
+      loaded: event.loaded,
+      total: total,
+      lengthComputable: event.lengthComputable,
+      progress: total === undefined || total === 0 ? undefined : event.loaded / total
+    }
+  }
+
   protected getCorsWithCredentials(corsWithCredentials: boolean | undefined): boolean {
     if (corsWithCredentials === true) {
       return true
@@ -0,0 +1,13 @@
+export class BodySerializationException extends Error {
+  public constructor(
+    protected path: string,
+    reason: string
+  ) {
+    super(`Cannot serialize the request body at "${path}": ${reason}`)
+    this.name = 'BodySerializationException'
+  }
+
+  public getPath(): string {
+    return this.path
+  }
+}
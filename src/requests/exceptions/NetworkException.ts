@@ -0,0 +1,13 @@
+export class NetworkException extends Error {
+  public readonly cause: unknown
+
+  public constructor(message: string = 'Network request failed.', cause?: unknown) {
+    super(message)
+    this.name = 'NetworkException'
+    this.cause = cause
+  }
+
+  public getCause(): unknown {
+    return this.cause
+  }
+}
@@ -0,0 +1,14 @@
+export class RequestAbortedException extends Error {
+  public readonly cause: unknown
+
+  public constructor(message: string = 'The operation was aborted.', cause?: unknown) {
+    super(message)
+    // Keep the DOMException name so existing `error.name === 'AbortError'` checks still match.
+    this.name = 'AbortError'
+    this.cause = cause
+  }
+
+  public getCause(): unknown {
+    return this.cause
+  }
+}
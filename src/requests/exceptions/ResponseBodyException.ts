@@ -1,15 +1,33 @@
 import { ResponseException } from './ResponseException'
+import { ProblemDetailsResponse } from '../responses/ProblemDetailsResponse'
 import { type ResponseHandlerContract } from '../drivers/contracts/ResponseHandlerContract'
+import { type ProblemDetails } from '../types/ProblemDetails'
 
 export class ResponseBodyException<ResponseErrorBody> extends ResponseException {
   public constructor(
     response: ResponseHandlerContract,
-    protected body: ResponseErrorBody
+    protected body: ResponseErrorBody | undefined,
+    protected rawBody?: string | undefined
   ) {
     super(response)
   }
 
-  public getBody(): ResponseErrorBody {
+  public getBody(): ResponseErrorBody | undefined {
     return this.body
   }
+
+  public getRawBody(): string | undefined {
+    return this.rawBody
+  }
+
+  public getProblem<Extensions extends Record<string, unknown> = Record<string, unknown>>(): ProblemDetails<Extensions> | undefined {
+    const headers = this.response.getHeaders?.() ?? {}
+    const contentType = Object.keys(headers).find((header) => header.toLowerCase() === 'content-type')
+
+    if (this.body === undefined || contentType === undefined || !ProblemDetailsResponse.isProblemContentType(headers[contentType])) {
+      return undefined
+    }
+
+    return ProblemDetailsResponse.parse<Extensions>(this.body, this.response.getStatusCode())
+  }
 }
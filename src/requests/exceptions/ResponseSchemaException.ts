@@ -0,0 +1,35 @@
+import { type ResponseHandlerContract } from '../drivers/contracts/ResponseHandlerContract'
+import { type ResponseValidationIssue } from '../contracts/ResponseValidatorContract'
+
+export class ResponseSchemaException extends Error {
+  public constructor(
+    protected response: ResponseHandlerContract,
+    protected issues: ResponseValidationIssue[],
+    protected body: unknown
+  ) {
+    super(
+      `Response does not match its schema: ${issues.map((issue) => `${ResponseSchemaException.formatPath(issue.path)}: ${issue.message}`).join(', ')}`
+    )
+    this.name = 'ResponseSchemaException'
+  }
+
+  public static formatPath(path: Array<string | number>): string {
+    return path.length === 0 ? '(root)' : path.join('.')
+  }
+
+  public getResponse(): ResponseHandlerContract {
+    return this.response
+  }
+
+  public getIssues(): ResponseValidationIssue[] {
+    return this.issues
+  }
+
+  public getPaths(): string[] {
+    return this.issues.map((issue) => ResponseSchemaException.formatPath(issue.path))
+  }
+
+  public getBody(): unknown {
+    return this.body
+  }
+}
@@ -0,0 +1,13 @@
+export class TimeoutException extends Error {
+  public constructor(
+    protected timeout: number,
+    message: string = `Request timed out after ${timeout}ms`
+  ) {
+    super(message)
+    this.name = 'TimeoutException'
+  }
+
+  public getTimeout(): number {
+    return this.timeout
+  }
+}
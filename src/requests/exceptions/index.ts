@@ -22,6 +22,11 @@ import { LockedException } from './LockedException'
 import { InvalidJsonException } from './InvalidJsonException'
 import { ResponseException } from './ResponseException'
 import { ResponseBodyException } from './ResponseBodyException'
+import { TimeoutException } from './TimeoutException'
+import { NetworkException } from './NetworkException'
+import { RequestAbortedException } from './RequestAbortedException'
+import { ResponseSchemaException } from './ResponseSchemaException'
+import { BodySerializationException } from './BodySerializationException'
 
 export {
   ValidationException,
@@ -47,5 +52,10 @@ export {
   GoneException,
   PreconditionFailedException,
   PayloadTooLargeException,
-  UnsupportedMediaTypeException
+  UnsupportedMediaTypeException,
+  TimeoutException,
+  NetworkException,
+  RequestAbortedException,
+  ResponseSchemaException,
+  BodySerializationException
 }
@@ -1,6 +1,7 @@
 import { FormDataBody } from '../bodies/FormDataBody'
 import { type BodyFactoryContract } from '../contracts/BodyFactoryContract'
 import { type BodyContract } from '../contracts/BodyContract'
+import { type BodySerializationOptions } from '../types/BodySerializationOptions'
 
 type FormDataPrimitive = string | number | boolean | null | Date | Blob
 
@@ -11,7 +12,9 @@ export class FormDataFactory<
     [K in keyof RequestBodyInterface]: FormDataValue | undefined
   }
 > implements BodyFactoryContract<RequestBodyInterface> {
+  public constructor(protected options: BodySerializationOptions = {}) {}
+
   public make(body: RequestBodyInterface): BodyContract {
-    return new FormDataBody<RequestBodyInterface>(body)
+    return new FormDataBody<RequestBodyInterface>(body, this.options)
   }
 }
@@ -1,9 +1,12 @@
 import { JsonBody } from '../bodies/JsonBody'
 import { type BodyFactoryContract } from '../contracts/BodyFactoryContract'
 import { type BodyContract } from '../contracts/BodyContract'
+import { type BodySerializationOptions } from '../types/BodySerializationOptions'
 
 export class JsonBodyFactory<RequestBodyInterface> implements BodyFactoryContract<RequestBodyInterface> {
+  public constructor(protected options: BodySerializationOptions = {}) {}
+
   public make(body: RequestBodyInterface): BodyContract {
-    return new JsonBody<RequestBodyInterface>(body)
+    return new JsonBody<RequestBodyInterface>(body, this.options)
   }
 }
@@ -0,0 +1,20 @@
+import { UrlEncodedBody } from '../bodies/UrlEncodedBody'
+import { type BodyFactoryContract } from '../contracts/BodyFactoryContract'
+import { type BodyContract } from '../contracts/BodyContract'
+import { type BodySerializationOptions } from '../types/BodySerializationOptions'
+
+type UrlEncodedPrimitive = string | number | boolean | null | Date
+
+export type UrlEncodedValue = UrlEncodedPrimitive | UrlEncodedValue[] | { [key: string]: UrlEncodedValue }
+
+export class UrlEncodedBodyFactory<
+  RequestBodyInterface extends {
+    [K in keyof RequestBodyInterface]: UrlEncodedValue | undefined
+  }
+> implements BodyFactoryContract<RequestBodyInterface> {
+  public constructor(protected options: BodySerializationOptions = {}) {}
+
+  public make(body: RequestBodyInterface): BodyContract {
+    return new UrlEncodedBody<RequestBodyInterface>(body, this.options)
+  }
+}
@@ -1,21 +1,43 @@
 import { FetchDriver } from './drivers/fetch/FetchDriver'
+import { FetchResponse } from './drivers/fetch/FetchResponse'
 import { BaseResponse } from './responses/BaseResponse'
 import { JsonResponse } from './responses/JsonResponse'
 import { PlainTextResponse } from './responses/PlainTextResponse'
 import { BlobResponse } from './responses/BlobResponse'
+import { ProblemDetailsResponse } from './responses/ProblemDetailsResponse'
+import { StreamResponse } from './responses/StreamResponse'
+import { TextStreamResponse } from './responses/TextStreamResponse'
+import { NdjsonResponse } from './responses/NdjsonResponse'
+import { EventStreamResponse } from './responses/EventStreamResponse'
 import { BaseRequest } from './BaseRequest'
 import { ErrorHandler } from './ErrorHandler'
 import { RequestErrorRouter } from './RequestErrorRouter'
+import { RequestRetryPolicy } from './RequestRetryPolicy'
+import { RequestScheduler } from './RequestScheduler'
+import { UrlTemplate } from './UrlTemplate'
+import { defineRequest, type DefinedRequest, type DefinedRequestArgs, type DefinedRequestClass } from './defineRequest'
+import { RequestCache } from './cache/RequestCache'
+import { BearerTokenAuthenticator } from './auth/BearerTokenAuthenticator'
+import { CachedResponse, type CachedResponseEntry } from './cache/CachedResponse'
 import { RequestEvents } from './RequestEvents.enum'
 import { RequestMethodEnum } from './RequestMethod.enum'
 import { RequestConcurrencyMode } from './RequestConcurrencyMode.enum'
+import { ResponseValidationMode } from './ResponseValidationMode.enum'
+import { CamelCaseKeysTransformer } from './transformers/CamelCaseKeysTransformer'
+import { DateRevivingTransformer } from './transformers/DateRevivingTransformer'
+import { ClassHydrationTransformer } from './transformers/ClassHydrationTransformer'
+import { MapItemsTransformer } from './transformers/MapItemsTransformer'
 import { BinaryBody } from './bodies/BinaryBody'
+import { UrlEncodedBody } from './bodies/UrlEncodedBody'
+import { BodySerializer, type BodySerializerEntry } from './bodies/BodySerializer'
 import { JsonBodyFactory } from './factories/JsonBodyFactory'
 import { BinaryBodyFactory, type BinaryBodyContent } from './factories/BinaryBodyFactory'
 import { FormDataFactory } from './factories/FormDataFactory'
+import { UrlEncodedBodyFactory } from './factories/UrlEncodedBodyFactory'
 import {
   MockRequestDriver,
   MockRequestExpectationBuilder,
+  getMockRequestFormBody,
   getMockRequestJsonBody,
   getMockRequestQuery,
   getMockRequestTextBody,
@@ -26,6 +48,7 @@ import {
   type MockRequestDriverOptions,
   type MockRequestExpectation,
   type MockRequestExpectationCriteria,
+  type MockRequestFailure,
   type MockRequestHeadersMatcher,
   type MockRequestHistoryEntry,
   type MockRequestMatchMode,
@@ -33,19 +56,37 @@ import {
   type MockRequestPredicate,
   type MockRequestQuery,
   type MockRequestQueryMatcher,
+  type MockRequestTimes,
   type MockRequestUrlMatcher,
   type MockResponseBody,
-  type MockResponseDefinition
+  type MockResponseDefinition,
+  type MockResponseFactory
 } from './drivers/mock/MockRequestDriver'
 import { MockRequestAssertionError } from './drivers/mock/MockRequestAssertionError'
+import { RecordingRequestDriver, type RecordingRequestDriverOptions } from './drivers/har/RecordingRequestDriver'
+import { HarReplayDriver, type HarReplayDriverOptions } from './drivers/har/HarReplayDriver'
 import {
+  FakeServerDriver,
+  type FakeResourceRoutesOptions,
+  type FakeServerDriverOptions,
+  type FakeServerHandler,
+  type FakeServerRequest
+} from './drivers/fake/FakeServerDriver'
+import { FakeResourceCollection, type FakeResourceId } from './drivers/fake/FakeResourceCollection'
+import {
+  abortedRequest,
   emptyResponse,
+  expectFormBody,
   expectJsonBody,
   installMockRequestDriver,
   jsonResponse,
   matchHeaders,
   matchQuery,
+  networkError,
+  noResponse,
   resetMockRequestDriver,
+  timeoutError,
+  uploadProgress,
   validationError,
   type InstallMockRequestDriverOptions
 } from './drivers/mock/MockRequestTestHelpers'
@@ -56,52 +97,106 @@ import { type RequestLoaderFactoryContract } from './contracts/RequestLoaderFact
 import { type DriverConfigContract } from './contracts/DriverConfigContract'
 import { type BodyFactoryContract } from './contracts/BodyFactoryContract'
 import { type ResponseHandlerContract } from './drivers/contracts/ResponseHandlerContract'
+import { type ResponseValidationIssue, type ResponseValidationResult, type ResponseValidatorContract } from './contracts/ResponseValidatorContract'
+import { type ResponseTransformer, type ResponseTransformerContract } from './contracts/ResponseTransformerContract'
+import { type CamelCase, type CamelCaseKeys } from './types/CamelCaseKeys'
+import { type RevivedDates } from './types/RevivedDates'
 import { type BaseRequestContract } from './contracts/BaseRequestContract'
+import { type RequestInterceptorContext, type RequestInterceptorContract, type RequestInterceptorNext } from './contracts/RequestInterceptorContract'
 import { ResponseException } from './exceptions/ResponseException'
 import { StaleResponseException } from './exceptions/StaleResponseException'
 import { type HeaderValue, type HeadersContract, type ResolvedHeadersContract } from './contracts/HeadersContract'
 import { type RequestConcurrencyOptions } from './types/RequestConcurrencyOptions'
+import { type RequestRetryOptions } from './types/RequestRetryOptions'
+import { type RequestQueryOptions } from './types/RequestQueryOptions'
+import { type BodySerializationOptions } from './types/BodySerializationOptions'
+import { type RequestDefinition } from './types/RequestDefinition'
+import { type UrlTemplateParamNames, type UrlTemplateParams } from './types/UrlTemplateParams'
+import { type RequestCacheOptions } from './types/RequestCacheOptions'
+import { type RequestSchedulerOptions } from './types/RequestSchedulerOptions'
+import { type RequestScheduleOptions } from './types/RequestScheduleOptions'
+import { type BearerTokenAuthenticatorOptions } from './types/BearerTokenAuthenticatorOptions'
+import { type ResponseExceptionConstructor, type ResponseExceptionMapping, type ResponseExceptionStatusRange } from './types/ResponseExceptionMapping'
+import { type ProblemDetails } from './types/ProblemDetails'
+import { type Har, type HarEntry, type HarRequest, type HarResponse } from './types/Har'
+import { type ServerSentEvent } from './types/ServerSentEvent'
+import { type StreamResponseLifecycle } from './types/StreamResponseLifecycle'
 import { type RequestUploadProgress } from './types/RequestUploadProgress'
+import { type RequestDownloadProgress } from './types/RequestDownloadProgress'
 import { XMLHttpRequestDriver } from './drivers/xhr/XMLHttpRequestDriver'
 
 export {
   FetchDriver,
+  FetchResponse,
   BaseResponse,
   JsonResponse,
   BlobResponse,
   PlainTextResponse,
+  ProblemDetailsResponse,
+  StreamResponse,
+  TextStreamResponse,
+  NdjsonResponse,
+  EventStreamResponse,
   BaseRequest,
   ErrorHandler,
   RequestErrorRouter,
+  RequestRetryPolicy,
+  RequestScheduler,
+  UrlTemplate,
+  defineRequest,
+  RequestCache,
+  CachedResponse,
+  BearerTokenAuthenticator,
   RequestEvents,
   RequestMethodEnum,
   RequestConcurrencyMode,
+  ResponseValidationMode,
   ResponseException,
   StaleResponseException,
+  CamelCaseKeysTransformer,
+  DateRevivingTransformer,
+  ClassHydrationTransformer,
+  MapItemsTransformer,
   BinaryBody,
+  UrlEncodedBody,
+  BodySerializer,
   JsonBodyFactory,
   BinaryBodyFactory,
   FormDataFactory,
+  UrlEncodedBodyFactory,
   XMLHttpRequestDriver,
   MockRequestDriver,
   MockRequestExpectationBuilder,
   MockRequestAssertionError,
+  RecordingRequestDriver,
+  HarReplayDriver,
+  FakeServerDriver,
+  FakeResourceCollection,
   expectJsonBody,
+  expectFormBody,
   matchHeaders,
   matchQuery,
   jsonResponse,
   validationError,
   emptyResponse,
+  networkError,
+  noResponse,
+  timeoutError,
+  abortedRequest,
+  uploadProgress,
   installMockRequestDriver,
   resetMockRequestDriver,
   getMockRequestJsonBody,
   getMockRequestTextBody,
+  getMockRequestFormBody,
   getMockRequestQuery
 }
 
 export type {
   BodyContent,
   BinaryBodyContent,
+  BodySerializerEntry,
+  BodySerializationOptions,
   RequestDriverContract,
   RequestLoaderContract,
   BodyContract,
@@ -109,12 +204,54 @@ export type {
   DriverConfigContract,
   BodyFactoryContract,
   ResponseHandlerContract,
+  ResponseValidatorContract,
+  ResponseValidationIssue,
+  ResponseValidationResult,
+  ResponseTransformer,
+  ResponseTransformerContract,
+  CamelCase,
+  CamelCaseKeys,
+  RevivedDates,
   BaseRequestContract,
+  RequestInterceptorContext,
+  RequestInterceptorContract,
+  RequestInterceptorNext,
   HeaderValue,
   HeadersContract,
   ResolvedHeadersContract,
   RequestConcurrencyOptions,
+  RequestRetryOptions,
+  RequestQueryOptions,
+  RequestDefinition,
+  DefinedRequest,
+  DefinedRequestArgs,
+  DefinedRequestClass,
+  UrlTemplateParamNames,
+  UrlTemplateParams,
+  RequestCacheOptions,
+  RequestSchedulerOptions,
+  RequestScheduleOptions,
+  BearerTokenAuthenticatorOptions,
+  ResponseExceptionConstructor,
+  ResponseExceptionMapping,
+  ResponseExceptionStatusRange,
+  CachedResponseEntry,
+  ProblemDetails,
+  Har,
+  HarEntry,
+  HarRequest,
+  HarResponse,
+  RecordingRequestDriverOptions,
+  HarReplayDriverOptions,
+  FakeServerDriverOptions,
+  FakeServerHandler,
+  FakeServerRequest,
+  FakeResourceRoutesOptions,
+  FakeResourceId,
+  ServerSentEvent,
+  StreamResponseLifecycle,
   RequestUploadProgress,
+  RequestDownloadProgress,
   MockNormalizedRequestBody,
   MockRequestBody,
   MockRequestBodyMatchContext,
@@ -122,6 +259,7 @@ export type {
   MockRequestDriverOptions,
   MockRequestExpectation,
   MockRequestExpectationCriteria,
+  MockRequestFailure,
   MockRequestHeadersMatcher,
   MockRequestHistoryEntry,
   MockRequestMatchMode,
@@ -129,8 +267,10 @@ export type {
   MockRequestPredicate,
   MockRequestQuery,
   MockRequestQueryMatcher,
+  MockRequestTimes,
   MockRequestUrlMatcher,
   MockResponseBody,
   MockResponseDefinition,
+  MockResponseFactory,
   InstallMockRequestDriverOptions
 }
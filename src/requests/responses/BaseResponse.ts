@@ -1,11 +1,14 @@
 import { type ResponseHandlerContract } from '../drivers/contracts/ResponseHandlerContract'
 import { type ResolvedHeadersContract } from '../contracts/HeadersContract'
 import { type ResponseContract } from '../contracts/ResponseContract'
+import { type ResponseTransformer } from '../contracts/ResponseTransformerContract'
+import { applyResponseTransformer } from '../transformers/applyResponseTransformer'
 
 export abstract class BaseResponse<ResponseInterface> implements ResponseContract<ResponseInterface> {
   private body?: ResponseInterface
 
   protected response?: ResponseHandlerContract
+  protected transformers: Array<(body: unknown) => unknown> = []
 
   public abstract getAcceptHeader(): string
 
@@ -14,11 +17,24 @@ export abstract class BaseResponse<ResponseInterface> implements ResponseContrac
   public async setResponse(response: ResponseHandlerContract): Promise<ResponseInterface> {
     this.response = response
 
-    this.body = await this.resolveBody()
+    let body: unknown = await this.resolveBody()
+
+    for (const transformer of this.transformers) {
+      body = await transformer(body)
+    }
+
+    this.body = body as ResponseInterface
 
     return this.body
   }
 
+  // Transformers run in the order they were added, after the body was resolved.
+  public transform<Output>(transformer: ResponseTransformer<ResponseInterface, Output>): BaseResponse<Output> {
+    this.transformers.push((body) => applyResponseTransformer(transformer, body as ResponseInterface))
+
+    return this as unknown as BaseResponse<Output>
+  }
+
   public getRawResponse(): Response | undefined {
     return this.response?.getRawResponse()
   }
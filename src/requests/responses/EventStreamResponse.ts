@@ -0,0 +1,58 @@
+import { StreamResponse } from './StreamResponse'
+import { type ServerSentEvent } from '../types/ServerSentEvent'
+
+export class EventStreamResponse extends StreamResponse<ServerSentEvent> {
+  public getAcceptHeader(): string {
+    return 'text/event-stream'
+  }
+
+  // Follows the event stream interpretation rules of the HTML specification.
+  protected async *parse(text: AsyncIterable<string>): AsyncGenerator<ServerSentEvent> {
+    let buffer = ''
+    let data: string[] | undefined = undefined
+    let event = ''
+    let id: string | undefined = undefined
+    let retry: number | undefined = undefined
+
+    for await (const part of text) {
+      buffer += part
+
+      // A trailing "\r" may be the first half of "\r\n", so it stays in the buffer until the next chunk.
+      const end = buffer.endsWith('\r') ? buffer.length - 1 : buffer.length
+      const lines = buffer.slice(0, end).split(/\r\n|\r|\n/)
+      buffer = (lines.pop() ?? '') + buffer.slice(end)
+
+      for (const line of lines) {
+        if (line === '') {
+          if (data !== undefined) {
+            yield { event: event === '' ? 'message' : event, data: data.join('\n'), id, retry }
+          }
+
+          data = undefined
+          event = ''
+          continue
+        }
+
+        if (line.startsWith(':')) {
+          continue
+        }
+
+        const colon = line.indexOf(':')
+        const field = colon === -1 ? line : line.slice(0, colon)
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+
+        if (field === 'event') {
+          event = value
+        } else if (field === 'data') {
+          data = [...(data ?? []), value]
+        } else if (field === 'id' && !value.includes('\0')) {
+          id = value
+        } else if (field === 'retry' && /^\d+$/.test(value)) {
+          retry = Number(value)
+        }
+      }
+    }
+
+    // An event without its terminating blank line is discarded.
+  }
+}
@@ -1,15 +1,70 @@
 import { BaseResponse } from './BaseResponse'
+import { ResponseValidationMode } from '../ResponseValidationMode.enum'
+import { ResponseSchemaException } from '../exceptions/ResponseSchemaException'
+import { type ResponseValidatorContract } from '../contracts/ResponseValidatorContract'
+import { type ResponseHandlerContract } from '../drivers/contracts/ResponseHandlerContract'
+import { type ResponseTransformer } from '../contracts/ResponseTransformerContract'
 
 export class JsonResponse<ResponseBodyInterface> extends BaseResponse<ResponseBodyInterface> {
+  protected validator: ResponseValidatorContract<ResponseBodyInterface> | undefined = undefined
+  protected validationMode: ResponseValidationMode | undefined = undefined
+
+  protected static defaultValidationMode: ResponseValidationMode = ResponseValidationMode.THROW
+
+  public static setDefaultValidationMode(mode: ResponseValidationMode): void {
+    JsonResponse.defaultValidationMode = mode
+  }
+
   public getAcceptHeader(): string {
     return 'application/json'
   }
 
+  public setValidator(validator?: ResponseValidatorContract<ResponseBodyInterface>, mode?: ResponseValidationMode): this {
+    this.validator = validator
+    this.validationMode = mode
+
+    return this
+  }
+
+  public override transform<Output>(transformer: ResponseTransformer<ResponseBodyInterface, Output>): JsonResponse<Output> {
+    return super.transform(transformer) as JsonResponse<Output>
+  }
+
   protected resolveBody(): Promise<ResponseBodyInterface> {
     if (!this.response) {
       throw new Error('Response is not set')
     }
 
-    return this.response.json<ResponseBodyInterface>()
+    const response = this.response
+    const validator = this.validator
+
+    if (validator === undefined) {
+      return response.json<ResponseBodyInterface>()
+    }
+
+    return response.json<unknown>().then((body) => this.validate(body, validator, response))
+  }
+
+  protected async validate(
+    body: unknown,
+    validator: ResponseValidatorContract<ResponseBodyInterface>,
+    response: ResponseHandlerContract
+  ): Promise<ResponseBodyInterface> {
+    const result = await validator.validate(body)
+
+    if (result.success) {
+      return result.data
+    }
+
+    const exception = new ResponseSchemaException(response, result.issues, body)
+
+    if ((this.validationMode ?? JsonResponse.defaultValidationMode) === ResponseValidationMode.THROW) {
+      throw exception
+    }
+
+    // In warn mode the unvalidated body is used as before.
+    console.warn('@blueprint-ts/core: Response does not match its schema.', exception)
+
+    return body as ResponseBodyInterface
   }
 }
@@ -0,0 +1,29 @@
+import { StreamResponse } from './StreamResponse'
+
+export class NdjsonResponse<Chunk> extends StreamResponse<Chunk> {
+  public getAcceptHeader(): string {
+    return 'application/x-ndjson'
+  }
+
+  protected async *parse(text: AsyncIterable<string>): AsyncGenerator<Chunk> {
+    let buffer = ''
+
+    for await (const part of text) {
+      buffer += part
+
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+
+      for (const line of lines) {
+        if (line.trim() !== '') {
+          yield JSON.parse(line) as Chunk
+        }
+      }
+    }
+
+    // The last line does not need a trailing newline.
+    if (buffer.trim() !== '') {
+      yield JSON.parse(buffer) as Chunk
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { BaseResponse } from './BaseResponse'
+import { type ProblemDetails } from '../types/ProblemDetails'
+
+export class ProblemDetailsResponse<Extensions extends Record<string, unknown> = Record<string, unknown>> extends BaseResponse<
+  ProblemDetails<Extensions>
+> {
+  public getAcceptHeader(): string {
+    return 'application/problem+json'
+  }
+
+  protected async resolveBody(): Promise<ProblemDetails<Extensions>> {
+    if (!this.response) {
+      throw new Error('Response is not set')
+    }
+
+    return ProblemDetailsResponse.parse<Extensions>(await this.response.json<unknown>(), this.response.getStatusCode())
+  }
+
+  public static isProblemContentType(contentType: string | undefined): boolean {
+    return contentType !== undefined && /^application\/problem\+json\b/i.test(contentType.trim())
+  }
+
+  public static parse<Extensions extends Record<string, unknown> = Record<string, unknown>>(
+    body: unknown,
+    status?: number
+  ): ProblemDetails<Extensions> {
+    const members: Record<string, unknown> = typeof body === 'object' && body !== null && !Array.isArray(body) ? { ...body } : {}
+    const { type, title, status: bodyStatus, detail, instance, ...extensions } = members
+
+    // Members with the wrong type are ignored, and a missing type means "about:blank" (RFC 9457, section 3.1).
+    return {
+      type: typeof type === 'string' ? type : 'about:blank',
+      title: typeof title === 'string' ? title : undefined,
+      status: typeof bodyStatus === 'number' ? bodyStatus : status,
+      detail: typeof detail === 'string' ? detail : undefined,
+      instance: typeof instance === 'string' ? instance : undefined,
+      extensions: extensions as Extensions
+    }
+  }
+}
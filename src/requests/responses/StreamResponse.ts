@@ -0,0 +1,118 @@
+import { BaseResponse } from './BaseResponse'
+import { StaleResponseException } from '../exceptions/StaleResponseException'
+import { RequestAbortedException } from '../exceptions/RequestAbortedException'
+import { NetworkException } from '../exceptions/NetworkException'
+import { type StreamResponseLifecycle } from '../types/StreamResponseLifecycle'
+
+export abstract class StreamResponse<Chunk> extends BaseResponse<AsyncIterable<Chunk>> implements AsyncIterable<Chunk> {
+  protected reader: ReadableStreamDefaultReader<Uint8Array> | undefined = undefined
+  protected lifecycle: StreamResponseLifecycle | undefined = undefined
+  protected settled: boolean = false
+
+  protected abstract parse(text: AsyncIterable<string>): AsyncIterable<Chunk>
+
+  public setLifecycle(lifecycle: StreamResponseLifecycle): this {
+    this.lifecycle = lifecycle
+
+    return this
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<Chunk> {
+    return this.getBody()[Symbol.asyncIterator]()
+  }
+
+  public async cancel(): Promise<void> {
+    try {
+      await this.reader?.cancel()
+    } finally {
+      this.settle()
+    }
+  }
+
+  protected resolveBody(): Promise<AsyncIterable<Chunk>> {
+    if (!this.response) {
+      throw new Error('Response is not set')
+    }
+
+    // Lock the body right away so nothing else can buffer it before the caller starts iterating.
+    this.reader = this.response.getRawResponse().body?.getReader()
+
+    return Promise.resolve(this.parse(this.decode()))
+  }
+
+  protected async *decode(): AsyncGenerator<string> {
+    const reader = this.reader
+    const decoder = new TextDecoder()
+
+    try {
+      if (reader === undefined) {
+        return
+      }
+
+      while (true) {
+        const { done, value } = await this.read(reader)
+
+        if (this.lifecycle?.isStale() === true) {
+          throw new StaleResponseException()
+        }
+
+        const text = done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+        if (text !== '') {
+          yield text
+        }
+
+        if (done) {
+          return
+        }
+      }
+    } finally {
+      // Also runs when the caller stops iterating early, which must release the connection.
+      reader?.cancel().catch(() => undefined)
+      this.settle()
+    }
+  }
+
+  protected read(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<ReadableStreamReadResult<Uint8Array>> {
+    const abortSignal = this.lifecycle?.abortSignal
+
+    // Drivers do not always tie the body to the abort signal once the headers arrived, so we watch it ourselves.
+    return new Promise((resolve, reject) => {
+      if (abortSignal?.aborted) {
+        reject(new RequestAbortedException())
+        return
+      }
+
+      const handleAbort = () => reject(new RequestAbortedException())
+
+      abortSignal?.addEventListener('abort', handleAbort, { once: true })
+
+      reader
+        .read()
+        .then(resolve, (error) => reject(this.toStreamException(error)))
+        .finally(() => abortSignal?.removeEventListener('abort', handleAbort))
+    })
+  }
+
+  protected toStreamException(error: unknown): unknown {
+    if (typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError') {
+      return error instanceof RequestAbortedException ? error : new RequestAbortedException(undefined, error)
+    }
+
+    // Fetch bodies error with a TypeError when the connection drops mid-stream.
+    if (error instanceof TypeError) {
+      return new NetworkException(undefined, error)
+    }
+
+    return error
+  }
+
+  protected settle(): void {
+    if (this.settled) {
+      return
+    }
+
+    this.settled = true
+    this.lifecycle?.onSettled()
+  }
+}
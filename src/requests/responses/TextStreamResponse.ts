@@ -0,0 +1,11 @@
+import { StreamResponse } from './StreamResponse'
+
+export class TextStreamResponse extends StreamResponse<string> {
+  public getAcceptHeader(): string {
+    return 'text/plain'
+  }
+
+  protected parse(text: AsyncIterable<string>): AsyncIterable<string> {
+    return text
+  }
+}
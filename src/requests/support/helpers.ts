@@ -0,0 +1,47 @@
+import { RequestAbortedException } from '../exceptions/RequestAbortedException'
+import { type HeaderValue, type HeadersContract, type ResolvedHeadersContract } from '../contracts/HeadersContract'
+
+// Rejects as soon as the signal fires, like a driver cancelling an in-flight request.
+export const wait = (delay: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedException())
+      return
+    }
+
+    const handleAbort = () => {
+      clearTimeout(timer)
+      reject(new RequestAbortedException())
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort)
+      resolve()
+    }, delay)
+
+    signal?.addEventListener('abort', handleAbort, { once: true })
+  })
+}
+
+// Calls header value functions and drops undefined values. Header names are kept as they are.
+export const resolveHeaders = (headers: HeadersContract): ResolvedHeadersContract => {
+  const resolved: ResolvedHeadersContract = {}
+
+  for (const key in headers) {
+    const value: HeaderValue | undefined = headers[key]
+
+    if (value === undefined) {
+      continue
+    }
+
+    resolved[key] = typeof value === 'function' ? value() : value
+  }
+
+  return resolved
+}
+
+export const findHeader = (headers: ResolvedHeadersContract, name: string): string | undefined => {
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === name.toLowerCase())
+
+  return key === undefined ? undefined : headers[key]
+}
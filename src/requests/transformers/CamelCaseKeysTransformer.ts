@@ -0,0 +1,28 @@
+import { isPlainObject, toCamelCase } from '../../support/helpers'
+import { type ResponseTransformerContract } from '../contracts/ResponseTransformerContract'
+import { type CamelCaseKeys } from '../types/CamelCaseKeys'
+
+export class CamelCaseKeysTransformer<Input> implements ResponseTransformerContract<Input, CamelCaseKeys<Input>> {
+  public transform(body: Input): CamelCaseKeys<Input> {
+    return this.convert(body) as CamelCaseKeys<Input>
+  }
+
+  protected convert(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.convert(item))
+    }
+
+    // Class instances like dates or files are left untouched.
+    if (!isPlainObject(value)) {
+      return value
+    }
+
+    const converted: Record<string, unknown> = {}
+
+    for (const key in value) {
+      converted[toCamelCase(key)] = this.convert(value[key])
+    }
+
+    return converted
+  }
+}
@@ -0,0 +1,9 @@
+import { type ResponseTransformerContract } from '../contracts/ResponseTransformerContract'
+
+export class ClassHydrationTransformer<Input, Output> implements ResponseTransformerContract<Input, Output> {
+  public constructor(protected target: new (data: Input) => Output) {}
+
+  public transform(body: Input): Output {
+    return new this.target(body)
+  }
+}
@@ -0,0 +1,38 @@
+import { isPlainObject } from '../../support/helpers'
+import { type ResponseTransformerContract } from '../contracts/ResponseTransformerContract'
+import { type RevivedDates } from '../types/RevivedDates'
+
+export class DateRevivingTransformer<Input, Keys extends string> implements ResponseTransformerContract<Input, RevivedDates<Input, Keys>> {
+  public constructor(protected keys: Keys[]) {}
+
+  public transform(body: Input): RevivedDates<Input, Keys> {
+    return this.revive(body) as RevivedDates<Input, Keys>
+  }
+
+  protected revive(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.revive(item))
+    }
+
+    if (!isPlainObject(value)) {
+      return value
+    }
+
+    const revived: Record<string, unknown> = {}
+
+    for (const key in value) {
+      const property = value[key]
+
+      revived[key] = (this.keys as string[]).includes(key) && typeof property === 'string' ? this.toDate(property) : this.revive(property)
+    }
+
+    return revived
+  }
+
+  protected toDate(value: string): Date | string {
+    const date = new Date(value)
+
+    // Values that are not valid dates are kept as they are.
+    return Number.isNaN(date.getTime()) ? value : date
+  }
+}
@@ -0,0 +1,10 @@
+import { applyResponseTransformer } from './applyResponseTransformer'
+import { type ResponseTransformer, type ResponseTransformerContract } from '../contracts/ResponseTransformerContract'
+
+export class MapItemsTransformer<Item, Output> implements ResponseTransformerContract<Item[], Output[]> {
+  public constructor(protected transformer: ResponseTransformer<Item, Output>) {}
+
+  public transform(body: Item[]): Promise<Output[]> {
+    return Promise.all(body.map((item) => applyResponseTransformer(this.transformer, item)))
+  }
+}
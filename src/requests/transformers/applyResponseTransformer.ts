@@ -0,0 +1,5 @@
+import { type ResponseTransformer } from '../contracts/ResponseTransformerContract'
+
+export const applyResponseTransformer = <Input, Output>(transformer: ResponseTransformer<Input, Output>, body: Input): Output | Promise<Output> => {
+  return typeof transformer === 'function' ? transformer(body) : transformer.transform(body)
+}
@@ -0,0 +1,10 @@
+import { type RequestInterceptorContext } from '../contracts/RequestInterceptorContract'
+
+export type BearerTokenAuthenticatorOptions = {
+  getToken: () => string | null | undefined
+  refresh: () => Promise<void>
+  onLogout?: (error: unknown) => void
+  header?: string
+  scheme?: string
+  shouldAuthenticate?: (context: RequestInterceptorContext) => boolean
+}
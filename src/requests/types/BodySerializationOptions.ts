@@ -0,0 +1,12 @@
+export type BodySerializationOptions = {
+  // Converts camelCase keys to snake_case.
+  snakeCaseKeys?: boolean
+  // How nested keys are written: `user[name]` or `user.name`.
+  nesting?: 'brackets' | 'dots'
+  // How array items are keyed: `tags[0]`, `tags[]`, or a repeated `tags`.
+  arrayFormat?: 'indices' | 'brackets' | 'repeat'
+  // How booleans are written: `true`/`false` or `1`/`0`.
+  booleanFormat?: 'string' | 'numeric'
+  // Omits null values instead of sending them.
+  skipNulls?: boolean
+}
@@ -0,0 +1,10 @@
+export type CamelCase<Key extends string> = Key extends `${infer Head}_${infer Tail}` ? `${Head}${Capitalize<CamelCase<Tail>>}` : Key
+
+// Converts all object keys from snake_case to camelCase, including nested objects and arrays.
+export type CamelCaseKeys<T> = T extends Date
+  ? T
+  : T extends Array<infer Item>
+    ? CamelCaseKeys<Item>[]
+    : T extends object
+      ? { [Key in keyof T as Key extends string ? CamelCase<Key> : Key]: CamelCaseKeys<T[Key]> }
+      : T
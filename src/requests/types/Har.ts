@@ -0,0 +1,76 @@
+// The subset of HAR 1.2 (http://www.softwareishard.com/blog/har-12-spec/) written and read by the HAR drivers.
+
+export interface HarNameValue {
+  name: string
+  value: string
+}
+
+export interface HarPostDataParam {
+  name: string
+  value?: string
+  fileName?: string
+  contentType?: string
+}
+
+export interface HarPostData {
+  mimeType: string
+  text?: string
+  params?: HarPostDataParam[]
+  // Custom field: set to `base64` when `text` holds a binary body.
+  _encoding?: 'base64'
+}
+
+export interface HarRequest {
+  method: string
+  url: string
+  httpVersion: string
+  headers: HarNameValue[]
+  queryString: HarNameValue[]
+  cookies: HarNameValue[]
+  headersSize: number
+  bodySize: number
+  postData?: HarPostData
+}
+
+export interface HarContent {
+  size: number
+  mimeType: string
+  text?: string
+  encoding?: 'base64'
+}
+
+export interface HarResponse {
+  status: number
+  statusText: string
+  httpVersion: string
+  headers: HarNameValue[]
+  cookies: HarNameValue[]
+  content: HarContent
+  redirectURL: string
+  headersSize: number
+  bodySize: number
+}
+
+export interface HarEntry {
+  startedDateTime: string
+  time: number
+  request: HarRequest
+  response: HarResponse
+  cache: Record<string, never>
+  timings: {
+    send: number
+    wait: number
+    receive: number
+  }
+}
+
+export interface Har {
+  log: {
+    version: string
+    creator: {
+      name: string
+      version: string
+    }
+    entries: HarEntry[]
+  }
+}
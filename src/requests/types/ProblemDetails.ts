@@ -0,0 +1,9 @@
+// An RFC 9457 problem details document. Members outside of the standard ones are collected in `extensions`.
+export interface ProblemDetails<Extensions extends Record<string, unknown> = Record<string, unknown>> {
+  type: string
+  title?: string | undefined
+  status?: number | undefined
+  detail?: string | undefined
+  instance?: string | undefined
+  extensions: Extensions
+}
@@ -0,0 +1,10 @@
+import { type PersistenceDriver } from '../../persistenceDrivers/types/PersistenceDriver'
+
+export type RequestCacheOptions = {
+  driver?: PersistenceDriver
+  ttl?: number
+  staleWhileRevalidate?: number
+  varyHeaders?: string[]
+  privateCache?: boolean
+  namespace?: string
+}
@@ -0,0 +1,14 @@
+import { type RequestMethodEnum } from '../RequestMethod.enum'
+import { type BodyFactoryContract } from '../contracts/BodyFactoryContract'
+import { type HeadersContract } from '../contracts/HeadersContract'
+
+export interface RequestDefinition<Template extends string, ResponseClass, RequestBodyInterface, RequestParamsInterface extends object> {
+  method: RequestMethodEnum
+  // A path or URL template like "/projects/{project}", whose params become the constructor argument.
+  url: Template
+  response: () => ResponseClass
+  body?: (() => BodyFactoryContract<RequestBodyInterface>) | undefined
+  // Default params. Use `{} as MyParams` to only declare the params type.
+  params?: RequestParamsInterface | undefined
+  headers?: HeadersContract | undefined
+}
@@ -0,0 +1,3 @@
+import { type RequestUploadProgress } from './RequestUploadProgress'
+
+export type RequestDownloadProgress = RequestUploadProgress
@@ -0,0 +1,4 @@
+import { type IStringifyOptions } from 'qs'
+
+// Options passed to qs when serializing request params, e.g. `arrayFormat` or `skipNulls`.
+export type RequestQueryOptions = Omit<IStringifyOptions, 'addQueryPrefix'>
@@ -0,0 +1,12 @@
+import { type RequestMethodEnum } from '../RequestMethod.enum'
+
+export type RequestRetryOptions = {
+  attempts?: number
+  baseDelay?: number
+  maxDelay?: number
+  factor?: number
+  jitter?: boolean
+  respectRetryAfter?: boolean
+  methods?: RequestMethodEnum[]
+  retryOn?: (error: unknown, attempt: number) => boolean
+}
@@ -0,0 +1,5 @@
+export type RequestScheduleOptions = {
+  key?: string | undefined
+  priority?: number | undefined
+  signal?: AbortSignal | undefined
+}
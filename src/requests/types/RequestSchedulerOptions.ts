@@ -0,0 +1,8 @@
+import { type RequestInterceptorContext } from '../contracts/RequestInterceptorContract'
+
+export type RequestSchedulerOptions = {
+  maxConcurrent?: number
+  maxConcurrentPerKey?: number
+  keyLimits?: Record<string, number>
+  key?: (context: RequestInterceptorContext) => string
+}
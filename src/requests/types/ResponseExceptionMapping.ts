@@ -0,0 +1,18 @@
+import { type ResponseHandlerContract } from '../drivers/contracts/ResponseHandlerContract'
+
+export type ResponseExceptionConstructor<ResponseErrorBody = unknown> = new (
+  response: ResponseHandlerContract,
+  body: ResponseErrorBody | undefined,
+  rawBody?: string
+) => Error
+
+export type ResponseExceptionStatusRange = {
+  from: number
+  to: number
+}
+
+export type ResponseExceptionMapping<ResponseErrorBody = unknown> = {
+  status?: number | number[] | ResponseExceptionStatusRange
+  when?: (body: ResponseErrorBody, response: ResponseHandlerContract) => boolean
+  exception: ResponseExceptionConstructor<ResponseErrorBody>
+}
@@ -0,0 +1,10 @@
+type RevivedDate<Value> = Value extends string ? Date : Value
+
+// Turns the string properties named in `Keys` into dates, including in nested objects and arrays.
+export type RevivedDates<T, Keys extends string> = T extends Date
+  ? T
+  : T extends Array<infer Item>
+    ? RevivedDates<Item, Keys>[]
+    : T extends object
+      ? { [Key in keyof T]: Key extends Keys ? RevivedDate<T[Key]> : RevivedDates<T[Key], Keys> }
+      : T
@@ -0,0 +1,6 @@
+export interface ServerSentEvent {
+  event: string
+  data: string
+  id?: string | undefined
+  retry?: number | undefined
+}
@@ -0,0 +1,5 @@
+export interface StreamResponseLifecycle {
+  abortSignal?: AbortSignal | undefined
+  isStale: () => boolean
+  onSettled: () => void
+}
@@ -0,0 +1,6 @@
+// Extracts "project" | "member" from "/projects/{project}/members/{member}".
+export type UrlTemplateParamNames<Template extends string> = Template extends `${string}{${infer Param}}${infer Rest}`
+  ? Param | UrlTemplateParamNames<Rest>
+  : never
+
+export type UrlTemplateParams<Template extends string> = { [Param in UrlTemplateParamNames<Template>]: string | number }
@@ -76,3 +76,24 @@ export const getDisplayablePages = (totalPages: number, pageNumber: number, disp
 export const isAtBottom = (scrollHeight: number, scrollTop: number, clientHeight: number): boolean => {
   return Math.abs(scrollHeight - scrollTop - clientHeight) <= 3.0
 }
+
+export const toCamelCase = (value: string): string => {
+  return value.replace(/_([a-z0-9])/gi, (_match, character: string) => character.toUpperCase())
+}
+
+export const isPlainObject = (item: unknown): item is Record<string, unknown> => {
+  if (!isObject(item)) {
+    return false
+  }
+
+  const prototype = Object.getPrototypeOf(item)
+
+  return prototype === Object.prototype || prototype === null
+}
+
+export const toSnakeCase = (value: string): string => {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase()
+}
@@ -1,4 +1,4 @@
 import { DeferredPromise } from './DeferredPromise'
-import { getCookie, getDisplayablePages, isAtBottom, isObject, mergeDeep } from './helpers'
+import { getCookie, getDisplayablePages, isAtBottom, isObject, isPlainObject, mergeDeep, toCamelCase, toSnakeCase } from './helpers'
 
-export { DeferredPromise, getCookie, getDisplayablePages, isAtBottom, isObject, mergeDeep }
+export { DeferredPromise, getCookie, getDisplayablePages, isAtBottom, isObject, isPlainObject, mergeDeep, toCamelCase, toSnakeCase }
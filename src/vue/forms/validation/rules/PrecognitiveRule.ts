@@ -62,7 +62,11 @@ export class PrecognitiveRule<FormBody extends object> extends BaseRule<FormBody
       return {}
     } catch (error) {
       if (error instanceof ValidationException) {
-        const body = error.getBody()
+        const body: PrecognitiveValidationErrorBody | undefined = error.getBody()
+
+        if (body === undefined) {
+          return {}
+        }
 
         return this.options.resolveErrors?.(body) ?? body.errors ?? {}
       }
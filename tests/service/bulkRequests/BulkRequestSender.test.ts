@@ -2,6 +2,7 @@ import { describe, expect, it, vi } from 'vitest'
 import { BulkRequestSender, BulkRequestExecutionMode } from '../../../src/bulkRequests/BulkRequestSender'
 import { BulkRequestWrapper } from '../../../src/bulkRequests/BulkRequestWrapper'
 import { BulkRequestEventEnum } from '../../../src/bulkRequests/BulkRequestEvent.enum'
+import { RequestAbortedException } from '../../../src/requests/exceptions/RequestAbortedException'
 
 const createRequest = (options: { failTimes?: number } = {}) => {
   let calls = 0
@@ -73,4 +74,67 @@ describe('BulkRequestSender', () => {
 
     expect((sender as any).events.has(BulkRequestEventEnum.REQUEST_SUCCESSFUL)).toBe(false)
   })
+
+  it('limits in-flight requests in parallel mode', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+
+    const createSlowRequest = () => ({
+      send: vi.fn().mockImplementation(async () => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        inFlight--
+
+        return 'ok'
+      }),
+      isLoading: vi.fn().mockReturnValue(false),
+      setAbortSignal: vi.fn(),
+    })
+
+    const wrappers = Array.from({ length: 6 }, () => new BulkRequestWrapper(createSlowRequest() as any))
+    const result = await new BulkRequestSender(wrappers, BulkRequestExecutionMode.PARALLEL).setMaxConcurrency(2).send()
+
+    expect(result.getSuccessCount()).toBe(6)
+    expect(maxInFlight).toBe(2)
+  })
+
+  it('records queued requests as failed when the bulk operation is aborted', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    const createAbortableRequest = () => {
+      let signal: AbortSignal | undefined
+
+      return {
+        send: vi.fn().mockImplementation(
+          () =>
+            new Promise((_resolve, reject) => {
+              signal?.addEventListener('abort', () => reject(new RequestAbortedException()))
+            })
+        ),
+        isLoading: vi.fn().mockReturnValue(false),
+        setAbortSignal: vi.fn().mockImplementation((value: AbortSignal) => {
+          signal = value
+        }),
+      }
+    }
+
+    const requests = Array.from({ length: 4 }, () => createAbortableRequest())
+    const wrappers = requests.map((request) => new BulkRequestWrapper(request as any))
+    const sender = new BulkRequestSender(wrappers, BulkRequestExecutionMode.PARALLEL).setMaxConcurrency(1)
+    const pending = sender.send()
+
+    await vi.waitFor(() => expect(requests[0].send).toHaveBeenCalled())
+    sender.abort()
+
+    const result = await pending
+
+    expect(result.getSuccessCount()).toBe(0)
+    expect(result.getErrorCount()).toBe(4)
+    expect(result.getFailedResponses().every((error) => error instanceof RequestAbortedException)).toBe(true)
+    expect(wrappers.map((wrapper) => wrapper.wasSent())).toEqual([true, false, false, false])
+    expect(requests.slice(1).every((request) => request.send.mock.calls.length === 0)).toBe(true)
+
+    vi.restoreAllMocks()
+  })
 })
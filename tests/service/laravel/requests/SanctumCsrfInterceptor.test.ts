@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { JsonBaseRequest, SanctumCsrfInterceptor } from '../../../../src/laravel/requests'
+import { BaseRequest, FetchResponse, RequestMethodEnum, ResponseException } from '../../../../src/requests'
+import { PageExpiredException } from '../../../../src/requests/exceptions/PageExpiredException'
+import type { HeadersContract, RequestDriverContract } from '../../../../src/requests'
+
+class ProjectStoreRequest extends JsonBaseRequest<boolean, { message: string }, { id: number }, { name: string }> {
+  public constructor(protected requestMethod: RequestMethodEnum = RequestMethodEnum.POST) {
+    super()
+  }
+
+  public method(): RequestMethodEnum {
+    return this.requestMethod
+  }
+
+  public url(): string {
+    return '/api/projects'
+  }
+}
+
+const resolveHeader = (headers: HeadersContract, name: string): string | undefined => {
+  const value = headers[name]
+
+  return typeof value === 'function' ? value() : value
+}
+
+const okResponse = () => new FetchResponse(new Response(JSON.stringify({ data: { id: 1 } }), { status: 200 }))
+const expiredResponse = () => new ResponseException(new FetchResponse(new Response(JSON.stringify({ message: 'CSRF token mismatch.' }), { status: 419 })))
+
+describe('SanctumCsrfInterceptor', () => {
+  let cookie: string
+
+  beforeEach(() => {
+    cookie = 'token-1'
+    BaseRequest.setDefaultBaseUrl('https://example.com')
+    BaseRequest.clearInterceptors()
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    BaseRequest.clearInterceptors()
+    vi.restoreAllMocks()
+  })
+
+  it('sends the XSRF-TOKEN cookie as header on mutating requests only', async () => {
+    const driver: RequestDriverContract = { send: vi.fn().mockImplementation(async () => okResponse()) }
+    const interceptor = new SanctumCsrfInterceptor({ getCookie: () => cookie })
+
+    await new ProjectStoreRequest().setRequestDriver(driver).setBody({ name: 'Apollo' }).addInterceptor(interceptor).send()
+    await new ProjectStoreRequest(RequestMethodEnum.GET).setRequestDriver(driver).addInterceptor(interceptor).send()
+
+    const [[, , postHeaders], [, , getHeaders]] = (driver.send as ReturnType<typeof vi.fn>).mock.calls
+
+    expect(resolveHeader(postHeaders, 'X-XSRF-TOKEN')).toBe('token-1')
+    expect(getHeaders['X-XSRF-TOKEN']).toBeUndefined()
+  })
+
+  it('reads the cookie from document.cookie by default', async () => {
+    document.cookie = 'XSRF-TOKEN=abc%3D%3D'
+    const driver: RequestDriverContract = { send: vi.fn().mockImplementation(async () => okResponse()) }
+
+    await new ProjectStoreRequest().setRequestDriver(driver).setBody({ name: 'Apollo' }).addInterceptor(new SanctumCsrfInterceptor()).send()
+
+    const [, , headers] = (driver.send as ReturnType<typeof vi.fn>).mock.calls[0]
+
+    expect(resolveHeader(headers, 'X-XSRF-TOKEN')).toBe('abc==')
+    document.cookie = 'XSRF-TOKEN=; expires=Thu, 01 Jan 1970 00:00:00 GMT'
+  })
+
+  it('refreshes the CSRF cookie once on 419 and retries the original requests', async () => {
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockImplementation(async (url: URL, _method: RequestMethodEnum, headers: HeadersContract) => {
+        if (url.pathname === '/sanctum/csrf-cookie') {
+          cookie = 'token-2'
+
+          return new FetchResponse(new Response(null, { status: 204 }))
+        }
+
+        if (resolveHeader(headers, 'X-XSRF-TOKEN') !== 'token-2') {
+          throw expiredResponse()
+        }
+
+        return okResponse()
+      })
+    }
+
+    BaseRequest.addInterceptor(new SanctumCsrfInterceptor({ getCookie: () => cookie }))
+
+    const responses = await Promise.all([
+      new ProjectStoreRequest().setRequestDriver(driver).setBody({ name: 'Apollo' }).send(),
+      new ProjectStoreRequest().setRequestDriver(driver).setBody({ name: 'Gemini' }).send()
+    ])
+
+    const urls = (driver.send as ReturnType<typeof vi.fn>).mock.calls.map(([url]) => url.pathname)
+
+    expect(responses.map((response) => response.getData())).toEqual([{ id: 1 }, { id: 1 }])
+    expect(urls.filter((path) => path === '/sanctum/csrf-cookie')).toHaveLength(1)
+    expect(urls.filter((path) => path === '/api/projects')).toHaveLength(4)
+  })
+
+  it('fetches the CSRF cookie before the first mutating request when it is missing', async () => {
+    cookie = ''
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockImplementation(async (url: URL) => {
+        if (url.pathname === '/sanctum/csrf-cookie') {
+          cookie = 'token-1'
+        }
+
+        return okResponse()
+      })
+    }
+
+    await new ProjectStoreRequest()
+      .setRequestDriver(driver)
+      .setBody({ name: 'Apollo' })
+      .addInterceptor(new SanctumCsrfInterceptor({ getCookie: () => cookie }))
+      .send()
+
+    const calls = (driver.send as ReturnType<typeof vi.fn>).mock.calls
+
+    expect(calls.map(([url]) => url.pathname)).toEqual(['/sanctum/csrf-cookie', '/api/projects'])
+    expect(resolveHeader(calls[1][2], 'X-XSRF-TOKEN')).toBe('token-1')
+  })
+
+  it('lets a waiting request abort without cancelling the shared cookie request', async () => {
+    cookie = ''
+    let releaseCookie: () => void = () => undefined
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockImplementation(async (url: URL) => {
+        if (url.pathname === '/sanctum/csrf-cookie') {
+          await new Promise<void>((resolve) => {
+            releaseCookie = resolve
+          })
+          cookie = 'token-1'
+        }
+
+        return okResponse()
+      })
+    }
+
+    const interceptor = new SanctumCsrfInterceptor({ getCookie: () => cookie })
+    const controller = new AbortController()
+    const send = (signal?: AbortSignal) => {
+      const request = new ProjectStoreRequest().setRequestDriver(driver).setBody({ name: 'Apollo' }).addInterceptor(interceptor)
+
+      return (signal === undefined ? request : request.setAbortSignal(signal)).send()
+    }
+
+    const aborted = send(controller.signal)
+    const waiting = send()
+
+    await vi.waitFor(() => expect(driver.send).toHaveBeenCalledTimes(1))
+    controller.abort()
+
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' })
+
+    const [, , , , cookieConfig] = (driver.send as ReturnType<typeof vi.fn>).mock.calls[0]
+
+    expect(cookieConfig.abortSignal).toBeUndefined()
+
+    releaseCookie()
+
+    await expect(waiting).resolves.toMatchObject({ getData: expect.any(Function) })
+    expect((driver.send as ReturnType<typeof vi.fn>).mock.calls.map(([url]) => url.pathname)).toEqual(['/sanctum/csrf-cookie', '/api/projects'])
+  })
+
+  it('gives up after one retry', async () => {
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockImplementation(async (url: URL) => {
+        if (url.pathname === '/sanctum/csrf-cookie') {
+          return new FetchResponse(new Response(null, { status: 204 }))
+        }
+
+        throw expiredResponse()
+      })
+    }
+
+    const promise = new ProjectStoreRequest()
+      .setRequestDriver(driver)
+      .setBody({ name: 'Apollo' })
+      .addInterceptor(new SanctumCsrfInterceptor({ getCookie: () => cookie }))
+      .send()
+
+    await expect(promise).rejects.toBeInstanceOf(PageExpiredException)
+    expect(driver.send).toHaveBeenCalledTimes(3)
+  })
+})
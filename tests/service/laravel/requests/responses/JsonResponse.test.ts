@@ -1,5 +1,7 @@
 import { describe, test, expect, beforeEach, vi } from 'vitest';
 import { JsonResponse } from '../../../../../src/laravel/requests'
+import { CamelCaseKeysTransformer } from '../../../../../src/requests/transformers/CamelCaseKeysTransformer'
+import { DateRevivingTransformer } from '../../../../../src/requests/transformers/DateRevivingTransformer'
 
 describe('JsonResponse', () => {
   let jsonResponse: JsonResponse<any>; // Generische Instanz für flexibles Testen
@@ -56,4 +58,22 @@ describe('JsonResponse', () => {
     const data = jsonResponse.getData();
     expect(data).toEqual(mockBody.data);
   });
+
+  test('should transform the resource in the data key', async () => {
+    const response = new JsonResponse<{ id: number; created_at: string }>()
+      .transformData(new CamelCaseKeysTransformer())
+      .transformData(new DateRevivingTransformer(['createdAt']));
+
+    await response.setResponse({
+      async json() {
+        return { data: { id: 1, created_at: '2026-10-19T08:00:00Z' }, links: { self: '/projects/1' } };
+      },
+      getRawResponse: vi.fn(),
+      getStatusCode: vi.fn(),
+      getHeaders: vi.fn(),
+    } as any);
+
+    expect(response.getData()).toEqual({ id: 1, createdAt: new Date('2026-10-19T08:00:00Z') });
+    expect(response.getBody()).toMatchObject({ links: { self: '/projects/1' } });
+  });
 });
@@ -1,5 +1,6 @@
 import { describe, test, expect, beforeEach, vi } from 'vitest';
 import { PaginationResponse } from '../../../../../src/laravel/requests'
+import { MapItemsTransformer } from '../../../../../src/requests/transformers/MapItemsTransformer'
 
 describe('PaginationResponse', () => {
   let paginationResponse: PaginationResponse<{ id: number; name: string }>;
@@ -124,4 +125,27 @@ describe('PaginationResponse', () => {
       "Cannot read properties of null (reading 'total')"
     );
   });
+
+  test('should transform the data while keeping the meta', async () => {
+    class Project {
+      public constructor(public id: number, public name: string) {}
+    }
+
+    const response = new PaginationResponse<{ id: number; name: string }[]>().transformData(
+      new MapItemsTransformer((item: { id: number; name: string }) => new Project(item.id, item.name))
+    );
+
+    await response.setResponse({
+      async json() {
+        return { data: [{ id: 1, name: 'First' }], meta: { total: 1 } };
+      },
+      getRawResponse: vi.fn(),
+      getStatusCode: vi.fn(),
+      getHeaders: vi.fn(),
+    } as any);
+
+    expect(response.getData()).toEqual([new Project(1, 'First')]);
+    expect(response.getData()[0]).toBeInstanceOf(Project);
+    expect(response.getTotal()).toBe(1);
+  });
 });
@@ -8,10 +8,16 @@ import { RequestConcurrencyMode } from '../../../src/requests/RequestConcurrency
 import { StaleResponseException } from '../../../src/requests/exceptions/StaleResponseException'
 import { ResponseException } from '../../../src/requests/exceptions/ResponseException'
 import { ErrorHandler } from '../../../src/requests/ErrorHandler'
+import { FetchResponse } from '../../../src/requests/drivers/fetch/FetchResponse'
+import { CachedResponse } from '../../../src/requests/cache/CachedResponse'
+import { NetworkException } from '../../../src/requests/exceptions/NetworkException'
+import { ResponseBodyException } from '../../../src/requests/exceptions/ResponseBodyException'
+import type { ResponseExceptionMapping } from '../../../src/requests/types/ResponseExceptionMapping'
 import type { RequestDriverContract } from '../../../src/requests/contracts/RequestDriverContract'
 import type { RequestLoaderContract } from '../../../src/requests/contracts/RequestLoaderContract'
 import type { RequestLoaderFactoryContract } from '../../../src/requests/contracts/RequestLoaderFactoryContract'
 import type { ResponseHandlerContract } from '../../../src/requests/drivers/contracts/ResponseHandlerContract'
+import type { DriverConfigContract } from '../../../src/requests/contracts/DriverConfigContract'
 
 class TestResponse extends BaseResponse<string> {
   public getAcceptHeader(): string {
@@ -85,6 +91,55 @@ describe('BaseRequest', () => {
     expect(url.toString()).toBe('https://example.com/test?filter%5Bactive%5D=false')
   })
 
+  it('merges params into a query string that is already part of the url', () => {
+    class SearchRequest extends TestRequest {
+      public url(): string {
+        return '/test?sort=name&page=1#results'
+      }
+    }
+
+    const url = new SearchRequest().setParams({ filter: { active: true } }).buildUrl()
+
+    expect(url.toString()).toBe('https://example.com/test?sort=name&page=1&filter%5Bactive%5D=true#results')
+  })
+
+  it('keeps repeated keys in the url query and only overrides the keys params sets', () => {
+    class TaggedRequest extends TestRequest {
+      public url(): string {
+        return '/test?tag=a&tag=b&filter[active]=false&filter%5Bname%5D=x'
+      }
+    }
+
+    const url = new TaggedRequest().setParams({ filter: { active: true } }).buildUrl()
+
+    expect(url.search).toBe('?tag=a&tag=b&filter%5Bactive%5D=true')
+  })
+
+  it('applies query options from the request class and instance', () => {
+    class ArrayParamsRequest extends BaseRequest<boolean, unknown, string, TestResponse, undefined, { ids?: number[]; search?: string | null }> {
+      public method(): RequestMethodEnum {
+        return RequestMethodEnum.GET
+      }
+
+      public url(): string {
+        return '/test'
+      }
+
+      public getResponse(): TestResponse {
+        return new TestResponse()
+      }
+
+      protected getQueryOptions() {
+        return { arrayFormat: 'brackets' as const }
+      }
+    }
+
+    const request = new ArrayParamsRequest().setParams({ ids: [1, 2], search: null })
+
+    expect(request.buildUrl().search).toBe('?ids%5B%5D=1&ids%5B%5D=2&search=')
+    expect(request.setQueryOptions({ arrayFormat: 'comma', skipNulls: true }).buildUrl().search).toBe('?ids=1%2C2')
+  })
+
   it('dispatches loading events and toggles loader', async () => {
     const loaderFactory: RequestLoaderFactoryContract<boolean> = {
       make: () => new TestLoader(),
@@ -165,6 +220,83 @@ describe('BaseRequest', () => {
     expect(progressEvents).toEqual([0.5])
   })
 
+  it('passes the request timeout to the driver config', async () => {
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockResolvedValue(createResponseHandler()),
+    }
+
+    await new TestRequest().setRequestDriver(driver).setTimeout(1500).send()
+
+    const [, , , , config] = (driver.send as ReturnType<typeof vi.fn>).mock.calls[0]
+    expect(config.timeout).toBe(1500)
+  })
+
+  it('dispatches download progress events only when someone listens', async () => {
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockImplementation(async (_url, _method, _headers, _body, requestConfig) => {
+        requestConfig?.onDownloadProgress?.({
+          loaded: 3,
+          total: 4,
+          lengthComputable: true,
+          progress: 0.75,
+        })
+
+        return createResponseHandler()
+      }),
+    }
+
+    BaseRequest.setRequestDriver(driver)
+
+    await new TestRequest().send()
+
+    const [, , , , silentConfig] = (driver.send as ReturnType<typeof vi.fn>).mock.calls[0]
+    expect(silentConfig.onDownloadProgress).toBeUndefined()
+
+    const progressEvents: Array<number | undefined> = []
+    const request = new TestRequest()
+
+    request.on(RequestEvents.DOWNLOAD_PROGRESS, (value: { progress?: number }) => progressEvents.push(value.progress))
+
+    await request.send()
+
+    expect(progressEvents).toEqual([0.75])
+  })
+
+  it('suppresses download progress for stale LATEST requests', async () => {
+    const configs: Array<{ onDownloadProgress?: (progress: object) => void }> = []
+    const resolvers: Array<(value: ResponseHandlerContract) => void> = []
+
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockImplementation(
+        (_url, _method, _headers, _body, requestConfig) =>
+          new Promise<ResponseHandlerContract>((resolve) => {
+            configs.push(requestConfig)
+            resolvers.push(resolve)
+          })
+      ),
+    }
+
+    BaseRequest.setRequestDriver(driver)
+
+    const progressEvents: number[] = []
+    const request = new TestRequest()
+    request.setConcurrency({ mode: RequestConcurrencyMode.LATEST, key: 'download-latest' })
+    request.on(RequestEvents.DOWNLOAD_PROGRESS, (value: { loaded: number }) => progressEvents.push(value.loaded))
+
+    const first = request.send()
+    const second = request.send()
+
+    configs[0].onDownloadProgress?.({ loaded: 1, lengthComputable: false })
+    configs[1].onDownloadProgress?.({ loaded: 2, lengthComputable: false })
+
+    resolvers[1](createResponseHandler())
+    resolvers[0](createResponseHandler())
+
+    await Promise.allSettled([first, second])
+
+    expect(progressEvents).toEqual([2])
+  })
+
   it('throws when loading state is requested without a loader', () => {
     const request = new TestRequest()
 
@@ -227,6 +359,182 @@ describe('BaseRequest', () => {
     await Promise.allSettled([firstPromise, secondPromise])
   })
 
+  it('shares a single driver call between identical DEDUPE requests', async () => {
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockImplementation(async () => new FetchResponse(new Response('shared', { status: 200 }))),
+    }
+    BaseRequest.setRequestDriver(driver)
+
+    const send = (name: string) =>
+      new TestRequest().setConcurrency({ mode: RequestConcurrencyMode.DEDUPE }).setBody({ name }).send({ resolveBody: false })
+
+    const [first, second] = await Promise.all([send('Ada'), send('Ada'), send('Grace')])
+
+    expect(driver.send).toHaveBeenCalledTimes(2)
+    expect(first).not.toBe(second)
+    await expect(first.text()).resolves.toBe('shared')
+    await expect(second.text()).resolves.toBe('shared')
+
+    await send('Ada')
+
+    expect(driver.send).toHaveBeenCalledTimes(3)
+  })
+
+  it('does not share DEDUPE calls between requests with different headers', async () => {
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockImplementation(async () => new FetchResponse(new Response('shared', { status: 200 }))),
+    }
+    BaseRequest.setRequestDriver(driver)
+
+    const send = (token: string) =>
+      new TestRequest()
+        .setConcurrency({ mode: RequestConcurrencyMode.DEDUPE })
+        .setHeaders({ Authorization: () => `Bearer ${token}` })
+        .setBody({ name: 'Ada' })
+        .send({ resolveBody: false })
+
+    await Promise.all([send('first'), send('first'), send('second')])
+
+    expect(driver.send).toHaveBeenCalledTimes(2)
+    expect((driver.send as ReturnType<typeof vi.fn>).mock.calls.map((call) => call[2]['Authorization']())).toEqual(['Bearer first', 'Bearer second'])
+  })
+
+  it('gives every DEDUPE caller its own ResponseException', async () => {
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockImplementation(async () => Promise.reject(new ResponseException(new FetchResponse(new Response('{}', { status: 500 }))))),
+    }
+    BaseRequest.setRequestDriver(driver)
+    vi.spyOn(ErrorHandler.prototype, 'handle').mockResolvedValue(undefined as never)
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    const send = () => new TestRequest().setConcurrency({ mode: RequestConcurrencyMode.DEDUPE, key: 'dedupe-error' }).send()
+    const results = await Promise.allSettled([send(), send()])
+    const [first, second] = results.map((result) => (result as PromiseRejectedResult).reason as ResponseException)
+
+    expect(driver.send).toHaveBeenCalledTimes(1)
+    expect(first).toBeInstanceOf(ResponseException)
+    expect(first.getResponse()).not.toBe(second.getResponse())
+    await expect(second.getResponse().text()).resolves.toBe('{}')
+
+    vi.restoreAllMocks()
+  })
+
+  it('only aborts a shared DEDUPE call once every caller aborted', async () => {
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockImplementation(() => new Promise<ResponseHandlerContract>(() => undefined)),
+    }
+    BaseRequest.setRequestDriver(driver)
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    const firstController = new AbortController()
+    const secondController = new AbortController()
+    const send = (controller: AbortController) =>
+      new TestRequest().setConcurrency({ mode: RequestConcurrencyMode.DEDUPE, key: 'dedupe-abort' }).setAbortSignal(controller.signal).send()
+
+    const first = send(firstController)
+    const second = send(secondController)
+    const sharedSignal = (driver.send as ReturnType<typeof vi.fn>).mock.calls[0][4].abortSignal as AbortSignal
+
+    firstController.abort()
+    await expect(first).rejects.toMatchObject({ name: 'AbortError' })
+    expect(sharedSignal.aborted).toBe(false)
+
+    secondController.abort()
+    await expect(second).rejects.toMatchObject({ name: 'AbortError' })
+    expect(sharedSignal.aborted).toBe(true)
+
+    vi.restoreAllMocks()
+  })
+
+  it('reports progress of a shared DEDUPE call to every caller', async () => {
+    let config: DriverConfigContract = {}
+    let resolve: (value: ResponseHandlerContract) => void = () => undefined
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockImplementation(
+        (_url, _method, _headers, _body, requestConfig) =>
+          new Promise<ResponseHandlerContract>((resolver) => {
+            config = requestConfig
+            resolve = resolver
+          })
+      ),
+    }
+    BaseRequest.setRequestDriver(driver)
+
+    const uploads: string[] = []
+    const downloads: string[] = []
+    const request = (name: string) =>
+      new TestRequest()
+        .setConcurrency({ mode: RequestConcurrencyMode.DEDUPE, key: 'dedupe-progress' })
+        .setBody({ name: 'Ada' })
+        .on(RequestEvents.UPLOAD_PROGRESS, () => uploads.push(name))
+        .on(RequestEvents.DOWNLOAD_PROGRESS, () => downloads.push(name))
+
+    const first = new TestRequest().setConcurrency({ mode: RequestConcurrencyMode.DEDUPE, key: 'dedupe-progress' }).setBody({ name: 'Ada' }).send()
+    const second = request('second').send()
+    const third = request('third').send()
+
+    config.onUploadProgress?.({ loaded: 1, lengthComputable: false })
+    config.onDownloadProgress?.({ loaded: 1, lengthComputable: false })
+    resolve(createResponseHandler())
+
+    await Promise.all([first, second, third])
+
+    expect(driver.send).toHaveBeenCalledTimes(1)
+    expect(uploads).toEqual(['second', 'third'])
+    expect(downloads).toEqual(['second', 'third'])
+  })
+
+  it('keeps the response handler type for every DEDUPE caller', async () => {
+    const entry = { key: 'projects', url: 'https://example.com/test', status: 200, statusText: 'OK', headers: {}, body: btoa('cached'), storedAt: 1 }
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockImplementation(async () => new CachedResponse(entry)),
+    }
+    BaseRequest.setRequestDriver(driver)
+
+    const send = () => new TestRequest().setConcurrency({ mode: RequestConcurrencyMode.DEDUPE, key: 'dedupe-cached' }).send({ resolveBody: false })
+    const [first, second] = await Promise.all([send(), send()])
+
+    expect(driver.send).toHaveBeenCalledTimes(1)
+    expect(first).toBeInstanceOf(CachedResponse)
+    expect(first).not.toBe(second)
+    expect((second as CachedResponse).getEntry()).toBe(entry)
+    await expect(first.text()).resolves.toBe('cached')
+    await expect(second.text()).resolves.toBe('cached')
+  })
+
+  it('maps errors with request-defined response exceptions', async () => {
+    class PaymentRequiredException<ResponseErrorBody> extends ResponseBodyException<ResponseErrorBody> {}
+
+    class BillingRequest extends TestRequest {
+      protected override getResponseExceptions(): ResponseExceptionMapping<{ message: string }>[] {
+        return [{ status: 402, exception: PaymentRequiredException }]
+      }
+    }
+
+    BaseRequest.setRequestDriver({
+      send: vi.fn().mockImplementation(async () => {
+        throw new ResponseException(new FetchResponse(new Response('{"message":"Upgrade"}', { status: 402 })))
+      }),
+    })
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    await expect(new BillingRequest().send()).rejects.toBeInstanceOf(PaymentRequiredException)
+    await expect(new TestRequest().send()).rejects.not.toBeInstanceOf(PaymentRequiredException)
+
+    vi.restoreAllMocks()
+  })
+
+  it('passes transport errors through without logging them as unknown errors', async () => {
+    const networkError = new NetworkException()
+    BaseRequest.setRequestDriver({ send: vi.fn().mockRejectedValue(networkError) })
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    await expect(new TestRequest().send()).rejects.toBe(networkError)
+    expect(consoleError).not.toHaveBeenCalled()
+
+    vi.restoreAllMocks()
+  })
+
   it('invokes ErrorHandler when a ResponseException is thrown', async () => {
     const responseHandler = createResponseHandler()
     const responseException = new ResponseException(responseHandler)
@@ -5,6 +5,9 @@ import { BinaryBodyFactory } from '../../../src/requests/factories/BinaryBodyFac
 import { JsonBodyFactory } from '../../../src/requests/factories/JsonBodyFactory'
 import { FormDataFactory } from '../../../src/requests/factories/FormDataFactory'
 import { FormDataBody } from '../../../src/requests/bodies/FormDataBody'
+import { UrlEncodedBody } from '../../../src/requests/bodies/UrlEncodedBody'
+import { UrlEncodedBodyFactory } from '../../../src/requests/factories/UrlEncodedBodyFactory'
+import { BodySerializationException } from '../../../src/requests/exceptions/BodySerializationException'
 
 describe('Request bodies and factories', () => {
   it('JsonBody returns headers and JSON content', () => {
@@ -14,6 +17,37 @@ describe('Request bodies and factories', () => {
     expect(body.getContent()).toBe('{"hello":"world"}')
   })
 
+  it('JsonBody converts keys to snake_case and omits nulls when configured', () => {
+    const body = new JsonBody(
+      { firstName: 'Ada', middleName: null, addresses: [{ streetName: 'Main', unit: null }], tags: [null, 'a'] },
+      { snakeCaseKeys: true, skipNulls: true }
+    )
+
+    expect(JSON.parse(body.getContent())).toEqual({ first_name: 'Ada', addresses: [{ street_name: 'Main' }], tags: [null, 'a'] })
+  })
+
+  it('JsonBody names the offending path when a value cannot be serialized', () => {
+    const body = new JsonBody({ items: [{ id: 1 }, { id: BigInt(2) }] })
+
+    expect(() => body.getContent()).toThrow(BodySerializationException)
+    expect(() => body.getContent()).toThrow('"items.1.id"')
+  })
+
+  it('JsonBody treats functions and toJSON() like JSON.stringify', () => {
+    const data = {
+      name: 'Ada',
+      format: () => 'ignored',
+      tags: ['a', () => 'b', Symbol('c')],
+      money: { amount: 100, currency: 'EUR', toJSON: () => '100 EUR' },
+      createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    }
+
+    expect(new JsonBody(data).getContent()).toBe(JSON.stringify(data))
+    expect(JSON.parse(new JsonBody({ moneyValue: { toJSON: () => ({ amountCents: 1 }) } }, { snakeCaseKeys: true }).getContent())).toEqual({
+      money_value: { amount_cents: 1 },
+    })
+  })
+
   it('JsonBodyFactory returns JsonBody', () => {
     const factory = new JsonBodyFactory<{ foo: string }>()
     const body = factory.make({ foo: 'bar' })
@@ -43,10 +77,50 @@ describe('Request bodies and factories', () => {
     expect(body).toBeInstanceOf(BinaryBody)
   })
 
+  it('JsonBodyFactory passes serialization options to its bodies', () => {
+    const body = new JsonBodyFactory<{ createdAt: string }>({ snakeCaseKeys: true }).make({ createdAt: 'today' })
+
+    expect(body.getContent()).toBe('{"created_at":"today"}')
+  })
+
   it('FormDataFactory returns FormDataBody', () => {
     const factory = new FormDataFactory<{ name: string }>()
     const body = factory.make({ name: 'alice' })
 
     expect(body).toBeInstanceOf(FormDataBody)
   })
+
+  it('FormDataFactory passes serialization options to its bodies', () => {
+    const body = new FormDataFactory<{ isActive: boolean }>({ snakeCaseKeys: true, booleanFormat: 'numeric' }).make({ isActive: true })
+
+    expect((body.getContent() as FormData).get('is_active')).toBe('1')
+  })
+
+  it('UrlEncodedBody returns headers and URL-encoded content', () => {
+    const body = new UrlEncodedBody({ grant_type: 'password', username: 'ada@example.com', scopes: ['read', 'write'], remember: true })
+
+    expect(body.getHeaders()).toEqual({ 'Content-Type': 'application/x-www-form-urlencoded' })
+    expect(body.getContent()).toBe('grant_type=password&username=ada%40example.com&scopes%5B0%5D=read&scopes%5B1%5D=write&remember=true')
+  })
+
+  it('UrlEncodedBody applies serialization options', () => {
+    const body = new UrlEncodedBody(
+      { clientId: 'app', scopes: ['read', 'write'], user: { isAdmin: false }, state: null },
+      { snakeCaseKeys: true, arrayFormat: 'repeat', nesting: 'dots', booleanFormat: 'numeric', skipNulls: true }
+    )
+
+    expect(body.getContent()).toBe('client_id=app&scopes=read&scopes=write&user.is_admin=0')
+  })
+
+  it('UrlEncodedBody rejects files with the offending path', () => {
+    expect(() => new UrlEncodedBody({ avatar: new Blob(['a']) } as any)).toThrow(BodySerializationException)
+    expect(() => new UrlEncodedBody({ avatar: new Blob(['a']) } as any)).toThrow('"avatar"')
+  })
+
+  it('UrlEncodedBodyFactory returns UrlEncodedBody', () => {
+    const body = new UrlEncodedBodyFactory<{ grantType: string }>({ snakeCaseKeys: true }).make({ grantType: 'client_credentials' })
+
+    expect(body).toBeInstanceOf(UrlEncodedBody)
+    expect(body.getContent()).toBe('grant_type=client_credentials')
+  })
 })
@@ -11,6 +11,7 @@ describe('Enums', () => {
     expect(RequestEvents.LOADING).toBe('loading')
     expect(RequestEvents.UPLOAD_PROGRESS).toBe('upload-progress')
     expect(RequestConcurrencyMode.REPLACE_LATEST).toBe('replace-latest')
+    expect(RequestConcurrencyMode.DEDUPE).toBe('dedupe')
   })
 
   it('exposes bulk request execution modes', () => {
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { ErrorHandler } from '../../../src/requests'
+import { ErrorHandler, FetchResponse } from '../../../src/requests'
 
 import {
   PageExpiredException,
@@ -24,7 +24,8 @@ import {
   NotImplementedException,
   BadGatewayException,
   ServiceUnavailableException,
-  GatewayTimeoutException
+  GatewayTimeoutException,
+  ResponseBodyException
 } from '../../../src/requests/exceptions';
 
 describe('ErrorHandler', () => {
@@ -35,7 +36,7 @@ describe('ErrorHandler', () => {
   it('should throw UnauthorizedException for status code 401', async () => {
     const mockResponse = {
       getStatusCode: vi.fn().mockReturnValue(401),
-      json: vi.fn().mockResolvedValue({}),
+      text: vi.fn().mockResolvedValue('{}'),
     };
 
     const handler = new ErrorHandler(mockResponse as any)
@@ -43,13 +44,13 @@ describe('ErrorHandler', () => {
     await expect(handler.handle()).rejects.toThrow(UnauthorizedException);
 
     expect(mockResponse.getStatusCode).toHaveBeenCalled();
-    expect(mockResponse.json).toHaveBeenCalled();
+    expect(mockResponse.text).toHaveBeenCalled();
   });
 
   it('should throw NotFoundException for status code 404', async () => {
     const mockResponse = {
       getStatusCode: vi.fn().mockReturnValue(404),
-      json: vi.fn().mockResolvedValue({}),
+      text: vi.fn().mockResolvedValue('{}'),
     };
 
     const handler = new ErrorHandler(mockResponse as any)
@@ -57,13 +58,13 @@ describe('ErrorHandler', () => {
     await expect(handler.handle()).rejects.toThrow(NotFoundException);
 
     expect(mockResponse.getStatusCode).toHaveBeenCalled();
-    expect(mockResponse.json).toHaveBeenCalled();
+    expect(mockResponse.text).toHaveBeenCalled();
   });
 
   it('should throw PageExpiredException for status code 419', async () => {
     const mockResponse = {
       getStatusCode: vi.fn().mockReturnValue(419),
-      json: vi.fn().mockResolvedValue({}),
+      text: vi.fn().mockResolvedValue('{}'),
     };
 
     const handler = new ErrorHandler(mockResponse as any)
@@ -71,13 +72,13 @@ describe('ErrorHandler', () => {
     await expect(handler.handle()).rejects.toThrow(PageExpiredException);
 
     expect(mockResponse.getStatusCode).toHaveBeenCalled();
-    expect(mockResponse.json).toHaveBeenCalled();
+    expect(mockResponse.text).toHaveBeenCalled();
   });
 
   it('should throw ValidationException for status code 422', async () => {
     const mockResponse = {
       getStatusCode: vi.fn().mockReturnValue(422),
-      json: vi.fn().mockResolvedValue({}),
+      text: vi.fn().mockResolvedValue('{}'),
     };
 
     const handler = new ErrorHandler(mockResponse as any)
@@ -85,13 +86,13 @@ describe('ErrorHandler', () => {
     await expect(handler.handle()).rejects.toThrow(ValidationException);
 
     expect(mockResponse.getStatusCode).toHaveBeenCalled();
-    expect(mockResponse.json).toHaveBeenCalled();
+    expect(mockResponse.text).toHaveBeenCalled();
   });
 
   it('should throw ServerErrorException for status code 500', async () => {
     const mockResponse = {
       getStatusCode: vi.fn().mockReturnValue(500),
-      json: vi.fn().mockResolvedValue({}),
+      text: vi.fn().mockResolvedValue('{}'),
     };
 
     const handler = new ErrorHandler(mockResponse as any)
@@ -99,25 +100,25 @@ describe('ErrorHandler', () => {
     await expect(handler.handle()).rejects.toThrow(ServerErrorException);
 
     expect(mockResponse.getStatusCode).toHaveBeenCalled();
-    expect(mockResponse.json).toHaveBeenCalled();
+    expect(mockResponse.text).toHaveBeenCalled();
   });
 
   it('should throw NoResponseReceivedException if response body is undefined', async () => {
     const mockResponse = {
       getStatusCode: vi.fn().mockReturnValue(undefined),
-      json: vi.fn().mockResolvedValue(undefined),
+      text: vi.fn().mockResolvedValue(''),
     };
 
     const handler = new ErrorHandler(mockResponse as any)
 
     await expect(handler.handle()).rejects.toThrow(NoResponseReceivedException);
-    expect(mockResponse.json).toHaveBeenCalled();
+    expect(mockResponse.text).toHaveBeenCalled();
   });
 
   it('should throw ResponseException for other status codes', async () => {
     const mockResponse = {
       getStatusCode: vi.fn().mockReturnValue(499),
-      json: vi.fn().mockResolvedValue({}),
+      text: vi.fn().mockResolvedValue('{}'),
     };
 
     const handler = new ErrorHandler(mockResponse as any)
@@ -125,7 +126,7 @@ describe('ErrorHandler', () => {
     await expect(handler.handle()).rejects.toThrow(ResponseException);
 
     expect(mockResponse.getStatusCode).toHaveBeenCalled();
-    expect(mockResponse.json).toHaveBeenCalled();
+    expect(mockResponse.text).toHaveBeenCalled();
   });
 
   it('should correctly use global error handler if registered', async () => {
@@ -134,7 +135,7 @@ describe('ErrorHandler', () => {
 
     const mockResponse = {
       getStatusCode: vi.fn().mockReturnValue(500),
-      json: vi.fn().mockResolvedValue({}),
+      text: vi.fn().mockResolvedValue('{}'),
     };
 
     const handler = new ErrorHandler(mockResponse as any)
@@ -142,19 +143,19 @@ describe('ErrorHandler', () => {
     await expect(handler.handle()).resolves.toBeUndefined();
 
     expect(handlerMock).toHaveBeenCalledWith(mockResponse);
-    expect(mockResponse.json).not.toHaveBeenCalled();
+    expect(mockResponse.text).not.toHaveBeenCalled();
   });
 
   it('should throw InvalidJsonException when response parsing fails', async () => {
     const mockResponse = {
       getStatusCode: vi.fn().mockReturnValue(500),
-      json: vi.fn().mockRejectedValue(new Error('Invalid JSON')),
+      text: vi.fn().mockResolvedValue('{"message":'),
     };
 
     const handler = new ErrorHandler(mockResponse as any)
 
     await expect(handler.handle()).rejects.toThrow(InvalidJsonException);
-    expect(mockResponse.json).toHaveBeenCalled();
+    expect(mockResponse.text).toHaveBeenCalled();
   });
 
   it.each([
@@ -176,13 +177,138 @@ describe('ErrorHandler', () => {
   ])('should throw correct exception for status code %i', async (status, ExceptionType) => {
     const mockResponse = {
       getStatusCode: vi.fn().mockReturnValue(status),
-      json: vi.fn().mockResolvedValue({}),
+      text: vi.fn().mockResolvedValue('{}'),
     };
 
     const handler = new ErrorHandler(mockResponse as any);
 
     await expect(handler.handle()).rejects.toThrow(ExceptionType);
     expect(mockResponse.getStatusCode).toHaveBeenCalled();
-    expect(mockResponse.json).toHaveBeenCalled();
+    expect(mockResponse.text).toHaveBeenCalled();
+  });
+
+  describe('exception registry', () => {
+    class PaymentRequiredException<ResponseErrorBody> extends ResponseBodyException<ResponseErrorBody> {}
+    class StorageException<ResponseErrorBody> extends ResponseBodyException<ResponseErrorBody> {}
+    class QuotaExceededException<ResponseErrorBody> extends ResponseBodyException<ResponseErrorBody> {}
+
+    const createResponse = (status: number, body: object = {}) => ({
+      getStatusCode: vi.fn().mockReturnValue(status),
+      text: vi.fn().mockResolvedValue(JSON.stringify(body)),
+    });
+
+    beforeEach(() => {
+      ErrorHandler.clearExceptions();
+    });
+
+    it('maps registered status codes, lists and ranges', async () => {
+      ErrorHandler.registerException({ status: 402, exception: PaymentRequiredException });
+      ErrorHandler.registerException({ status: [406, 428], exception: BadRequestException });
+      ErrorHandler.registerException({ status: { from: 505, to: 599 }, exception: StorageException });
+
+      await expect(new ErrorHandler(createResponse(402) as any).handle()).rejects.toThrow(PaymentRequiredException);
+      await expect(new ErrorHandler(createResponse(428) as any).handle()).rejects.toThrow(BadRequestException);
+      await expect(new ErrorHandler(createResponse(507) as any).handle()).rejects.toThrow(StorageException);
+      await expect(new ErrorHandler(createResponse(404) as any).handle()).rejects.toThrow(NotFoundException);
+    });
+
+    it('matches response body predicates before the built-in mapping', async () => {
+      ErrorHandler.registerException<{ code?: string }>({
+        status: 429,
+        when: (body) => body.code === 'quota_exceeded',
+        exception: QuotaExceededException,
+      });
+
+      const quota = new ErrorHandler(createResponse(429, { code: 'quota_exceeded' }) as any).handle();
+
+      await expect(quota).rejects.toThrow(QuotaExceededException);
+      await expect(quota).rejects.toMatchObject({ body: { code: 'quota_exceeded' } });
+      await expect(new ErrorHandler(createResponse(429, { code: 'slow_down' }) as any).handle()).rejects.toThrow(TooManyRequestsException);
+    });
+
+    it('prefers mappings passed by the request over global ones', async () => {
+      ErrorHandler.registerException({ status: 402, exception: PaymentRequiredException });
+
+      const handler = new ErrorHandler(createResponse(402) as any, [{ status: 402, exception: StorageException }]);
+
+      await expect(handler.handle()).rejects.toThrow(StorageException);
+    });
+  });
+
+  describe('content-type aware body decoding', () => {
+    const createResponse = (status: number, body: string | null, headers: Record<string, string>) =>
+      new FetchResponse(new Response(body, { status, headers }));
+
+    it('keeps the status exception for HTML error pages and exposes the raw text', async () => {
+      const html = '<html><body>502 Bad Gateway</body></html>';
+      const promise = new ErrorHandler(createResponse(502, html, { 'Content-Type': 'text/html' })).handle();
+
+      await expect(promise).rejects.toThrow(BadGatewayException);
+      await expect(promise).rejects.toSatisfy((error: BadGatewayException<unknown>) => error.getBody() === undefined && error.getRawBody() === html);
+    });
+
+    it('decodes application/problem+json bodies', async () => {
+      const problem = { type: 'https://example.com/probs/out-of-credit', title: 'Out of credit', status: 403 };
+      const promise = new ErrorHandler(createResponse(403, JSON.stringify(problem), { 'Content-Type': 'application/problem+json' })).handle();
+
+      await expect(promise).rejects.toThrow(ForbiddenException);
+      await expect(promise).rejects.toSatisfy((error: ForbiddenException<unknown>) => JSON.stringify(error.getBody()) === JSON.stringify(problem));
+    });
+
+    it('exposes problem details for problem+json bodies', async () => {
+      const problem = { type: 'https://example.com/probs/out-of-credit', title: 'Out of credit', detail: 'Balance is 30.', balance: 30 };
+      const promise = new ErrorHandler(createResponse(403, JSON.stringify(problem), { 'Content-Type': 'application/problem+json' })).handle();
+
+      await expect(promise).rejects.toSatisfy(
+        (error: ForbiddenException<unknown>) =>
+          JSON.stringify(error.getProblem()) ===
+          JSON.stringify({
+            type: 'https://example.com/probs/out-of-credit',
+            title: 'Out of credit',
+            status: 403,
+            detail: 'Balance is 30.',
+            extensions: { balance: 30 }
+          })
+      );
+    });
+
+    it('exposes problem details for unmapped statuses but not for plain JSON', async () => {
+      const unmapped = new ErrorHandler(createResponse(402, '{"title":"Payment required"}', { 'Content-Type': 'application/problem+json' })).handle();
+      const json = new ErrorHandler(createResponse(403, '{"type":"about:blank"}', { 'Content-Type': 'application/json' })).handle();
+
+      await expect(unmapped).rejects.toSatisfy((error: ResponseBodyException<unknown>) => error.getProblem()?.type === 'about:blank' && error.getProblem()?.status === 402);
+      await expect(json).rejects.toSatisfy((error: ForbiddenException<unknown>) => error.getProblem() === undefined);
+    });
+
+    it('tolerates plain text and empty bodies', async () => {
+      const text = new ErrorHandler(createResponse(503, 'Down for maintenance', { 'Content-Type': 'text/plain; charset=utf-8' })).handle();
+      const empty = new ErrorHandler(createResponse(404, null, { 'Content-Length': '0' })).handle();
+      const emptyJson = new ErrorHandler(createResponse(409, '', { 'Content-Type': 'application/json' })).handle();
+
+      await expect(text).rejects.toSatisfy((error: ServiceUnavailableException<unknown>) => error.getRawBody() === 'Down for maintenance');
+      await expect(empty).rejects.toThrow(NotFoundException);
+      await expect(emptyJson).rejects.toThrow(ConflictException);
+    });
+
+    it('keeps the status exception for error responses without headers or a body', async () => {
+      const promise = new ErrorHandler(createResponse(401, null, {})).handle();
+
+      await expect(promise).rejects.toThrow(UnauthorizedException);
+      await expect(promise).rejects.toSatisfy((error: UnauthorizedException<unknown>) => error.getBody() === undefined && error.getRawBody() === '');
+    });
+
+    it('decodes JSON error bodies sent without a content type', async () => {
+      const body = new TextEncoder().encode('{"message":"Invalid"}');
+      const promise = new ErrorHandler(new FetchResponse(new Response(body, { status: 422 }))).handle();
+
+      await expect(promise).rejects.toThrow(ValidationException);
+      await expect(promise).rejects.toMatchObject({ body: { message: 'Invalid' } });
+    });
+
+    it('still rejects malformed bodies declared as JSON', async () => {
+      const promise = new ErrorHandler(createResponse(500, '{"message":', { 'Content-Type': 'application/json' })).handle();
+
+      await expect(promise).rejects.toThrow(InvalidJsonException);
+    });
   });
 });
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import { FormDataBody } from '../../../src/requests/bodies/FormDataBody'
+import { BodySerializationException } from '../../../src/requests/exceptions/BodySerializationException'
 
 describe('FormDataBody', () => {
   it('appends strings and files', () => {
@@ -60,4 +61,37 @@ describe('FormDataBody', () => {
     expect(fd.get('tags[0]')).toBe('a')
     expect(fd.get('tags[1]')).toBe('b')
   })
+
+  it('names the offending path when rejecting values', () => {
+    const create = () => new FormDataBody({ items: [{ name: 'a' }, { name: undefined }] } as any)
+
+    expect(create).toThrow(BodySerializationException)
+    expect(create).toThrow('Cannot serialize the request body at "items.1.name"')
+  })
+
+  it('supports dot nesting and alternative array formats', () => {
+    const data = { user: { name: 'Ada', roles: ['admin', 'editor'] } }
+
+    const dots = new FormDataBody(data, { nesting: 'dots' }).getContent()
+    expect(dots.get('user.name')).toBe('Ada')
+    expect(dots.get('user.roles.1')).toBe('editor')
+
+    const brackets = new FormDataBody(data, { arrayFormat: 'brackets' }).getContent()
+    expect(brackets.getAll('user[roles][]')).toEqual(['admin', 'editor'])
+
+    const repeat = new FormDataBody(data, { arrayFormat: 'repeat' }).getContent()
+    expect(repeat.getAll('user[roles]')).toEqual(['admin', 'editor'])
+  })
+
+  it('converts keys, encodes booleans numerically and skips nulls when configured', () => {
+    const fd = new FormDataBody(
+      { isActive: true, isAdmin: false, deletedAt: null, profile: { displayName: 'Ada' } },
+      { snakeCaseKeys: true, booleanFormat: 'numeric', skipNulls: true }
+    ).getContent()
+
+    expect(fd.get('is_active')).toBe('1')
+    expect(fd.get('is_admin')).toBe('0')
+    expect(fd.has('deleted_at')).toBe(false)
+    expect(fd.get('profile[display_name]')).toBe('Ada')
+  })
 })
@@ -1,6 +1,10 @@
 import { describe, expect, it, vi } from 'vitest'
 import { RequestErrorRouter } from '../../../src/requests/RequestErrorRouter'
 import { BadRequestException } from '../../../src/requests/exceptions/BadRequestException'
+import { ResponseBodyException } from '../../../src/requests/exceptions/ResponseBodyException'
+import { NetworkException } from '../../../src/requests/exceptions/NetworkException'
+import { RequestAbortedException } from '../../../src/requests/exceptions/RequestAbortedException'
+import { ForbiddenException } from '../../../src/requests/exceptions/ForbiddenException'
 
 const mockResponse = {
   getStatusCode: () => 400,
@@ -24,6 +28,50 @@ describe('RequestErrorRouter', () => {
     expect(handler).toHaveBeenCalledTimes(1)
   })
 
+  it('routes transport errors separately', async () => {
+    const router = new RequestErrorRouter()
+    const offline = vi.fn()
+    const aborted = vi.fn()
+
+    router.on(NetworkException, offline).on(RequestAbortedException, aborted)
+
+    await router.handle(new NetworkException())
+    await router.handle(new RequestAbortedException())
+
+    expect(offline).toHaveBeenCalledTimes(1)
+    expect(aborted).toHaveBeenCalledTimes(1)
+  })
+
+  it('routes custom exception classes', async () => {
+    class PaymentRequiredException<ResponseErrorBody> extends ResponseBodyException<ResponseErrorBody> {}
+
+    const router = new RequestErrorRouter()
+    const handler = vi.fn((exception: PaymentRequiredException<unknown>) => exception.getBody())
+
+    router.on(PaymentRequiredException, handler)
+
+    await router.handle(new PaymentRequiredException(mockResponse as any, { plan: 'free' }))
+
+    expect(handler).toHaveReturnedWith({ plan: 'free' })
+  })
+
+  it('routes problem details by type before falling back to status handlers', async () => {
+    const problemResponse = { ...mockResponse, getStatusCode: () => 403, getHeaders: () => ({ 'content-type': 'application/problem+json' }) }
+    const router = new RequestErrorRouter()
+    const outOfCredit = vi.fn()
+    const forbidden = vi.fn()
+
+    router.onProblemType('https://example.com/probs/out-of-credit', outOfCredit).on(ForbiddenException, forbidden)
+
+    const exception = new ForbiddenException(problemResponse as any, { type: 'https://example.com/probs/out-of-credit', balance: 30 })
+
+    await router.handle(exception)
+    await router.handle(new ForbiddenException(problemResponse as any, { type: 'https://example.com/probs/other' }))
+
+    expect(outOfCredit).toHaveBeenCalledWith(exception, expect.objectContaining({ status: 403, extensions: { balance: 30 } }))
+    expect(forbidden).toHaveBeenCalledTimes(1)
+  })
+
   it('uses default handler when no match found', async () => {
     const router = new RequestErrorRouter()
     const fallback = vi.fn()
@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { BaseRequest } from '../../../src/requests/BaseRequest'
+import { JsonResponse } from '../../../src/requests/responses/JsonResponse'
+import { JsonBody } from '../../../src/requests/bodies/JsonBody'
+import { JsonBodyFactory } from '../../../src/requests/factories/JsonBodyFactory'
+import { RequestMethodEnum } from '../../../src/requests/RequestMethod.enum'
+import { FetchResponse } from '../../../src/requests/drivers/fetch/FetchResponse'
+import type { RequestDriverContract } from '../../../src/requests/contracts/RequestDriverContract'
+import type { RequestInterceptorContract } from '../../../src/requests/contracts/RequestInterceptorContract'
+
+class TestRequest extends BaseRequest<boolean, { message: string }, { value: string }, JsonResponse<{ value: string }>, { name: string }> {
+  public method(): RequestMethodEnum {
+    return RequestMethodEnum.POST
+  }
+
+  public url(): string {
+    return '/test'
+  }
+
+  public getResponse(): JsonResponse<{ value: string }> {
+    return new JsonResponse<{ value: string }>()
+  }
+
+  public getRequestBodyFactory() {
+    return new JsonBodyFactory<{ name: string }>()
+  }
+}
+
+const createDriver = (body: object = { value: 'driver' }): RequestDriverContract => ({
+  send: vi.fn().mockImplementation(async () => new FetchResponse(new Response(JSON.stringify(body), { status: 200 })))
+})
+
+const recordingInterceptor = (name: string, calls: string[]): RequestInterceptorContract => ({
+  intercept: async (context, next) => {
+    calls.push(`${name}:before`)
+    const response = await next(context)
+    calls.push(`${name}:after`)
+
+    return response
+  }
+})
+
+describe('Request interceptors', () => {
+  beforeEach(() => {
+    BaseRequest.setDefaultBaseUrl('https://example.com')
+    BaseRequest.clearInterceptors()
+  })
+
+  it('runs global, request-defined and instance interceptors in order', async () => {
+    const calls: string[] = []
+
+    BaseRequest.addInterceptor(recordingInterceptor('global', calls))
+
+    class InterceptedRequest extends TestRequest {
+      protected override getInterceptors(): RequestInterceptorContract[] {
+        return [recordingInterceptor('class', calls)]
+      }
+    }
+
+    await new InterceptedRequest().setRequestDriver(createDriver()).addInterceptor(recordingInterceptor('instance', calls)).send()
+
+    expect(calls).toEqual(['global:before', 'class:before', 'instance:before', 'instance:after', 'class:after', 'global:after'])
+  })
+
+  it('lets interceptors rewrite the url, headers, body and driver config before dispatch', async () => {
+    const driver = createDriver()
+    const controller = new AbortController()
+
+    const request = new TestRequest()
+      .setRequestDriver(driver)
+      .setBody({ name: 'Ada' })
+      .addInterceptor({
+        intercept: async (context, next) =>
+          await next({
+            ...context,
+            url: new URL('https://api.example.com/rewritten'),
+            headers: { ...context.headers, 'X-Trace-Id': 'trace-1' },
+            body: new JsonBody({ name: 'Grace' }),
+            config: { ...context.config, abortSignal: controller.signal }
+          })
+      })
+
+    await request.send()
+
+    const [url, method, headers, body, config] = (driver.send as ReturnType<typeof vi.fn>).mock.calls[0]
+
+    expect(url.toString()).toBe('https://api.example.com/rewritten')
+    expect(method).toBe(RequestMethodEnum.POST)
+    expect(headers).toEqual({ Accept: 'application/json', 'X-Trace-Id': 'trace-1' })
+    expect(body.getContent()).toBe('{"name":"Grace"}')
+    expect(config.abortSignal).toBe(controller.signal)
+  })
+
+  it('exposes the originating request to interceptors', async () => {
+    const request = new TestRequest().setRequestDriver(createDriver())
+    const seen: unknown[] = []
+
+    request.addInterceptor({
+      intercept: async (context, next) => {
+        seen.push(context.request)
+
+        return await next(context)
+      }
+    })
+
+    await request.send()
+
+    expect(seen).toEqual([request])
+  })
+
+  it('lets interceptors replace the response handler', async () => {
+    const request = new TestRequest().setRequestDriver(createDriver({ data: { value: 'wrapped' } })).addInterceptor({
+      intercept: async (context, next) => {
+        const response = await next(context)
+        const envelope = await response.json<{ data: { value: string } }>()
+
+        return new FetchResponse(new Response(JSON.stringify(envelope.data), { status: response.getStatusCode() ?? 200 }))
+      }
+    })
+
+    const response = await request.send()
+
+    expect(response.getBody()).toEqual({ value: 'wrapped' })
+  })
+
+  it('can short-circuit the driver', async () => {
+    const driver = createDriver()
+
+    const response = await new TestRequest()
+      .setRequestDriver(driver)
+      .addInterceptor({
+        intercept: async () => new FetchResponse(new Response(JSON.stringify({ value: 'cached' }), { status: 200 }))
+      })
+      .send()
+
+    expect(response.getBody()).toEqual({ value: 'cached' })
+    expect(driver.send).not.toHaveBeenCalled()
+  })
+
+  it('removes global interceptors', async () => {
+    const calls: string[] = []
+    const interceptor = recordingInterceptor('global', calls)
+
+    BaseRequest.addInterceptor(interceptor)
+    BaseRequest.removeInterceptor(interceptor)
+
+    await new TestRequest().setRequestDriver(createDriver()).send()
+
+    expect(calls).toEqual([])
+  })
+})
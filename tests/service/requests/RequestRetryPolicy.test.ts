@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { BaseRequest } from '../../../src/requests/BaseRequest'
+import { ErrorHandler } from '../../../src/requests/ErrorHandler'
+import { JsonResponse } from '../../../src/requests/responses/JsonResponse'
+import { RequestMethodEnum } from '../../../src/requests/RequestMethod.enum'
+import { RequestConcurrencyMode } from '../../../src/requests/RequestConcurrencyMode.enum'
+import { RequestRetryPolicy } from '../../../src/requests/RequestRetryPolicy'
+import { FetchResponse } from '../../../src/requests/drivers/fetch/FetchResponse'
+import { ResponseException } from '../../../src/requests/exceptions/ResponseException'
+import { StaleResponseException } from '../../../src/requests/exceptions/StaleResponseException'
+import { BadRequestException } from '../../../src/requests/exceptions/BadRequestException'
+import { ServiceUnavailableException } from '../../../src/requests/exceptions/ServiceUnavailableException'
+import { TooManyRequestsException } from '../../../src/requests/exceptions/TooManyRequestsException'
+import type { RequestDriverContract } from '../../../src/requests/contracts/RequestDriverContract'
+
+class TestRequest extends BaseRequest<boolean, { message: string }, { ok: boolean }, JsonResponse<{ ok: boolean }>> {
+  public method(): RequestMethodEnum {
+    return RequestMethodEnum.GET
+  }
+
+  public url(): string {
+    return '/retry'
+  }
+
+  public getResponse(): JsonResponse<{ ok: boolean }> {
+    return new JsonResponse<{ ok: boolean }>()
+  }
+}
+
+const createResponse = (status: number, headers: Record<string, string> = {}) =>
+  new FetchResponse(new Response(JSON.stringify(status < 400 ? { ok: true } : { message: 'error' }), { status, headers }))
+
+const createErrorResponse = (status: number, headers: Record<string, string> = {}) => new ResponseException(createResponse(status, headers))
+
+describe('RequestRetryPolicy', () => {
+  it('backs off exponentially without jitter', () => {
+    const policy = new RequestRetryPolicy({ baseDelay: 100, factor: 2, jitter: false })
+
+    expect(policy.getDelay(new Error(), 1)).toBe(100)
+    expect(policy.getDelay(new Error(), 2)).toBe(200)
+    expect(policy.getDelay(new Error(), 3)).toBe(400)
+  })
+
+  it('caps delays at maxDelay and keeps jitter within the backoff window', () => {
+    const policy = new RequestRetryPolicy({ baseDelay: 1000, maxDelay: 1500 })
+
+    for (let i = 0; i < 20; i++) {
+      const delay = policy.getDelay(new Error(), 4)
+
+      expect(delay).toBeGreaterThanOrEqual(750)
+      expect(delay).toBeLessThanOrEqual(1500)
+    }
+  })
+
+  it('honours Retry-After seconds and HTTP dates', () => {
+    const policy = new RequestRetryPolicy({ jitter: false })
+    const future = new Date(Date.now() + 5000).toUTCString()
+
+    expect(policy.getDelay(createErrorResponse(429, { 'Retry-After': '2' }), 1)).toBe(2000)
+    expect(policy.getDelay(createErrorResponse(503, { 'Retry-After': future }), 1)).toBeGreaterThan(3000)
+    expect(new RequestRetryPolicy({ jitter: false, respectRetryAfter: false }).getDelay(createErrorResponse(429, { 'Retry-After': '2' }), 1)).toBe(300)
+  })
+
+  it('retries only retryable errors within the attempt budget', () => {
+    const policy = new RequestRetryPolicy({ attempts: 2 })
+    const unavailable = new ServiceUnavailableException(createResponse(503), {})
+
+    expect(policy.shouldRetry(unavailable, 1)).toBe(true)
+    expect(policy.shouldRetry(unavailable, 2)).toBe(false)
+    expect(policy.shouldRetry(new TooManyRequestsException(createResponse(429), {}), 1)).toBe(true)
+    expect(policy.shouldRetry(new TypeError('Failed to fetch'), 1)).toBe(true)
+    expect(policy.shouldRetry(new BadRequestException(createResponse(400), {}), 1)).toBe(false)
+    expect(policy.shouldRetry(new DOMException('The operation was aborted.', 'AbortError'), 1)).toBe(false)
+    expect(policy.shouldRetry(new StaleResponseException(), 1)).toBe(false)
+  })
+
+  it('delegates to a custom retryOn predicate', () => {
+    const policy = new RequestRetryPolicy({ retryOn: (error) => error instanceof BadRequestException })
+
+    expect(policy.shouldRetry(new BadRequestException(createResponse(400), {}), 1)).toBe(true)
+    expect(policy.shouldRetry(new ServiceUnavailableException(createResponse(503), {}), 1)).toBe(false)
+  })
+
+  it('only retries idempotent methods unless others are allowed explicitly', () => {
+    const unavailable = new ServiceUnavailableException(createResponse(503), {})
+    const policy = new RequestRetryPolicy()
+
+    expect(policy.shouldRetry(unavailable, 1, RequestMethodEnum.GET)).toBe(true)
+    expect(policy.shouldRetry(unavailable, 1, RequestMethodEnum.PUT)).toBe(true)
+    expect(policy.shouldRetry(unavailable, 1, RequestMethodEnum.POST)).toBe(false)
+    expect(policy.shouldRetry(unavailable, 1, RequestMethodEnum.PATCH)).toBe(false)
+    expect(new RequestRetryPolicy({ methods: [RequestMethodEnum.POST] }).shouldRetry(unavailable, 1, RequestMethodEnum.POST)).toBe(true)
+    expect(new RequestRetryPolicy({ retryOn: () => true }).shouldRetry(unavailable, 1, RequestMethodEnum.POST)).toBe(false)
+  })
+})
+
+describe('BaseRequest retries', () => {
+  beforeEach(() => {
+    BaseRequest.setDefaultBaseUrl('https://example.com')
+    BaseRequest.setDefaultRetry(undefined)
+    ErrorHandler.registerHandler(undefined)
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('does not retry without a retry policy', async () => {
+    const driver: RequestDriverContract = { send: vi.fn().mockRejectedValue(createErrorResponse(503)) }
+
+    await expect(new TestRequest().setRequestDriver(driver).send()).rejects.toBeInstanceOf(ServiceUnavailableException)
+    expect(driver.send).toHaveBeenCalledTimes(1)
+  })
+
+  it('retries retryable responses until one succeeds', async () => {
+    const driver: RequestDriverContract = {
+      send: vi
+        .fn()
+        .mockRejectedValueOnce(createErrorResponse(503))
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(createResponse(200))
+    }
+
+    const response = await new TestRequest().setRequestDriver(driver).setRetry({ attempts: 3, baseDelay: 1, jitter: false }).send()
+
+    expect(response.getBody()).toEqual({ ok: true })
+    expect(driver.send).toHaveBeenCalledTimes(3)
+  })
+
+  it('uses the global retry policy and lets requests override it', async () => {
+    BaseRequest.setDefaultRetry({ attempts: 5, baseDelay: 1, jitter: false })
+
+    const driver: RequestDriverContract = { send: vi.fn().mockImplementation(async () => Promise.reject(createErrorResponse(503))) }
+
+    await expect(new TestRequest().setRequestDriver(driver).setRetry({ attempts: 2 }).send()).rejects.toBeInstanceOf(ServiceUnavailableException)
+    expect(driver.send).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not retry non-retryable errors', async () => {
+    const driver: RequestDriverContract = { send: vi.fn().mockRejectedValue(createErrorResponse(400)) }
+
+    await expect(new TestRequest().setRequestDriver(driver).setRetry({ baseDelay: 1 }).send()).rejects.toBeInstanceOf(BadRequestException)
+    expect(driver.send).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not retry POST requests unless they opt in', async () => {
+    class StoreRequest extends TestRequest {
+      public override method(): RequestMethodEnum {
+        return RequestMethodEnum.POST
+      }
+    }
+
+    const driver: RequestDriverContract = { send: vi.fn().mockImplementation(async () => Promise.reject(createErrorResponse(503))) }
+
+    await expect(new StoreRequest().setRequestDriver(driver).setRetry({ baseDelay: 1 }).send()).rejects.toBeInstanceOf(ServiceUnavailableException)
+    expect(driver.send).toHaveBeenCalledTimes(1)
+
+    await expect(
+      new StoreRequest()
+        .setRequestDriver(driver)
+        .setRetry({ attempts: 2, baseDelay: 1, methods: [RequestMethodEnum.POST] })
+        .send()
+    ).rejects.toBeInstanceOf(ServiceUnavailableException)
+    expect(driver.send).toHaveBeenCalledTimes(3)
+  })
+
+  it('calls the global error handler once retries are exhausted', async () => {
+    const globalHandler = vi.fn()
+    ErrorHandler.registerHandler(globalHandler)
+
+    const driver: RequestDriverContract = { send: vi.fn().mockImplementation(async () => Promise.reject(createErrorResponse(503))) }
+
+    await expect(new TestRequest().setRequestDriver(driver).setRetry({ attempts: 3, baseDelay: 1 }).send()).rejects.toBeInstanceOf(
+      ServiceUnavailableException
+    )
+    expect(driver.send).toHaveBeenCalledTimes(3)
+    expect(globalHandler).toHaveBeenCalledTimes(1)
+    expect(globalHandler.mock.calls[0]?.[0]?.getStatusCode()).toBe(503)
+  })
+
+  it('does not call the global error handler for attempts that are retried', async () => {
+    const globalHandler = vi.fn()
+    ErrorHandler.registerHandler(globalHandler)
+
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockRejectedValueOnce(createErrorResponse(503)).mockResolvedValueOnce(createResponse(200))
+    }
+
+    await new TestRequest().setRequestDriver(driver).setRetry({ baseDelay: 1 }).send()
+
+    expect(globalHandler).not.toHaveBeenCalled()
+  })
+
+  it('stops retrying when the request is aborted during backoff', async () => {
+    const controller = new AbortController()
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockImplementation(async () => {
+        setTimeout(() => controller.abort(), 5)
+
+        throw createErrorResponse(503)
+      })
+    }
+
+    const promise = new TestRequest().setRequestDriver(driver).setAbortSignal(controller.signal).setRetry({ baseDelay: 1000, jitter: false }).send()
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' })
+    expect(driver.send).toHaveBeenCalledTimes(1)
+  })
+
+  it('never resolves a retried LATEST request after a newer request', async () => {
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockRejectedValueOnce(createErrorResponse(503)).mockResolvedValue(createResponse(200))
+    }
+
+    const request = new TestRequest()
+      .setRequestDriver(driver)
+      .setConcurrency({ mode: RequestConcurrencyMode.LATEST, key: 'retry-latest' })
+      .setRetry({ baseDelay: 20, jitter: false })
+
+    const first = request.send()
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    const second = request.send()
+
+    await expect(second).resolves.toBeInstanceOf(JsonResponse)
+    await expect(first).rejects.toBeInstanceOf(StaleResponseException)
+    expect(driver.send).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { BaseRequest } from '../../../src/requests/BaseRequest'
+import { JsonResponse } from '../../../src/requests/responses/JsonResponse'
+import { RequestMethodEnum } from '../../../src/requests/RequestMethod.enum'
+import { RequestScheduler } from '../../../src/requests/RequestScheduler'
+import { FetchResponse } from '../../../src/requests/drivers/fetch/FetchResponse'
+import type { RequestDriverContract } from '../../../src/requests/contracts/RequestDriverContract'
+import type { ResponseHandlerContract } from '../../../src/requests/drivers/contracts/ResponseHandlerContract'
+
+class TestRequest extends BaseRequest<boolean, { message: string }, { ok: boolean }, JsonResponse<{ ok: boolean }>> {
+  public constructor(protected path: string = '/test') {
+    super()
+  }
+
+  public method(): RequestMethodEnum {
+    return RequestMethodEnum.GET
+  }
+
+  public url(): string {
+    return this.path
+  }
+
+  public getResponse(): JsonResponse<{ ok: boolean }> {
+    return new JsonResponse<{ ok: boolean }>()
+  }
+}
+
+const createDeferred = () => {
+  let resolve: () => void = () => undefined
+  const promise = new Promise<void>((resolver) => (resolve = resolver))
+
+  return { promise, resolve }
+}
+
+const flush = async () => await new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('RequestScheduler', () => {
+  it('caps concurrent tasks and runs queued tasks by priority', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 })
+    const blocker = createDeferred()
+    const order: string[] = []
+
+    const first = scheduler.schedule(async () => {
+      order.push('first')
+      await blocker.promise
+    })
+    const low = scheduler.schedule(async () => order.push('low'), { priority: 0 })
+    const high = scheduler.schedule(async () => order.push('high'), { priority: 10 })
+
+    expect(scheduler.getRunningCount()).toBe(1)
+    expect(scheduler.getQueuedCount()).toBe(2)
+
+    blocker.resolve()
+    await Promise.all([first, low, high])
+
+    expect(order).toEqual(['first', 'high', 'low'])
+    expect(scheduler.getRunningCount()).toBe(0)
+  })
+
+  it('limits each key without blocking other keys', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrentPerKey: 1, keyLimits: { 'cdn.example.com': 2 } })
+    const blocker = createDeferred()
+    const task = vi.fn().mockImplementation(async () => await blocker.promise)
+
+    const tasks = [
+      scheduler.schedule(task, { key: 'api.example.com' }),
+      scheduler.schedule(task, { key: 'api.example.com' }),
+      scheduler.schedule(task, { key: 'cdn.example.com' }),
+      scheduler.schedule(task, { key: 'cdn.example.com' })
+    ]
+
+    expect(task).toHaveBeenCalledTimes(3)
+    expect(scheduler.getQueuedCount('api.example.com')).toBe(1)
+
+    blocker.resolve()
+    await Promise.all(tasks)
+
+    expect(task).toHaveBeenCalledTimes(4)
+  })
+
+  it('drops aborted tasks from the queue without running them', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 })
+    const blocker = createDeferred()
+    const controller = new AbortController()
+    const queuedTask = vi.fn().mockResolvedValue(undefined)
+
+    const running = scheduler.schedule(async () => await blocker.promise)
+    const queued = scheduler.schedule(queuedTask, { signal: controller.signal })
+
+    controller.abort()
+
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' })
+    expect(scheduler.getQueuedCount()).toBe(0)
+
+    blocker.resolve()
+    await running
+
+    expect(queuedTask).not.toHaveBeenCalled()
+  })
+
+  it('releases slots when a task fails', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 })
+
+    await expect(scheduler.schedule(async () => Promise.reject(new Error('fail')))).rejects.toThrow('fail')
+    await expect(scheduler.schedule(async () => 'next')).resolves.toBe('next')
+  })
+})
+
+describe('RequestScheduler interceptor', () => {
+  beforeEach(() => {
+    BaseRequest.setDefaultBaseUrl('https://example.com')
+    BaseRequest.clearInterceptors()
+  })
+
+  it('queues requests per host and honours request priorities', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrentPerKey: 1 })
+    const resolvers: Array<() => void> = []
+    const driver: RequestDriverContract = {
+      send: vi.fn().mockImplementation(
+        () =>
+          new Promise<ResponseHandlerContract>((resolve) => {
+            resolvers.push(() => resolve(new FetchResponse(new Response(JSON.stringify({ ok: true }), { status: 200 }))))
+          })
+      )
+    }
+
+    BaseRequest.addInterceptor(scheduler)
+
+    const first = new TestRequest('/first').setRequestDriver(driver).send()
+    const low = new TestRequest('/low').setRequestDriver(driver).send()
+    const high = new TestRequest('/high').setRequestDriver(driver).setPriority(5).send()
+    await flush()
+
+    expect(driver.send).toHaveBeenCalledTimes(1)
+
+    resolvers[0]!()
+    await first
+    await flush()
+
+    expect((driver.send as ReturnType<typeof vi.fn>).mock.calls[1][0].pathname).toBe('/high')
+
+    resolvers[1]!()
+    await high
+    await flush()
+    resolvers[2]!()
+    await low
+
+    expect(driver.send).toHaveBeenCalledTimes(3)
+
+    BaseRequest.clearInterceptors()
+  })
+})
@@ -1,8 +1,12 @@
-import { describe, expect, it } from 'vitest'
+import { afterEach, describe, expect, it, vi } from 'vitest'
 import { BaseResponse } from '../../../src/requests/responses/BaseResponse'
 import { JsonResponse } from '../../../src/requests/responses/JsonResponse'
 import { PlainTextResponse } from '../../../src/requests/responses/PlainTextResponse'
 import { BlobResponse } from '../../../src/requests/responses/BlobResponse'
+import { ProblemDetailsResponse } from '../../../src/requests/responses/ProblemDetailsResponse'
+import { ResponseValidationMode } from '../../../src/requests/ResponseValidationMode.enum'
+import { ResponseSchemaException } from '../../../src/requests/exceptions/ResponseSchemaException'
+import type { ResponseValidatorContract } from '../../../src/requests/contracts/ResponseValidatorContract'
 import type { ResponseHandlerContract } from '../../../src/requests/drivers/contracts/ResponseHandlerContract'
 
 class TestResponse extends BaseResponse<string> {
@@ -24,7 +28,20 @@ const mockResponseHandler: ResponseHandlerContract = {
   blob: async () => new Blob(['blob'], { type: 'text/plain' }),
 }
 
+// Expects `{ ok: boolean }` and reports every other shape.
+const okValidator: ResponseValidatorContract<{ ok: boolean }> = {
+  validate: (body) =>
+    typeof (body as { ok?: unknown }).ok === 'boolean'
+      ? { success: true, data: body as { ok: boolean } }
+      : { success: false, issues: [{ path: ['ok'], message: 'Expected boolean' }] }
+}
+
 describe('Response classes', () => {
+  afterEach(() => {
+    JsonResponse.setDefaultValidationMode(ResponseValidationMode.THROW)
+    vi.restoreAllMocks()
+  })
+
   it('BaseResponse throws if body not set', () => {
     const response = new TestResponse()
 
@@ -51,6 +68,45 @@ describe('Response classes', () => {
     expect(response.getBody()).toEqual({ ok: true })
   })
 
+  it('JsonResponse returns the validated body', async () => {
+    const validator = { validate: vi.fn(async () => ({ success: true as const, data: { ok: false } })) }
+    const response = new JsonResponse<{ ok: boolean }>().setValidator(validator)
+
+    await response.setResponse(mockResponseHandler)
+
+    expect(validator.validate).toHaveBeenCalledWith({ ok: true })
+    expect(response.getBody()).toEqual({ ok: false })
+  })
+
+  it('JsonResponse throws ResponseSchemaException with the failing paths', async () => {
+    const response = new JsonResponse<{ ok: boolean }>().setValidator(okValidator)
+    const promise = response.setResponse({ ...mockResponseHandler, json: async () => ({ ok: 'yes' }) })
+
+    await expect(promise).rejects.toBeInstanceOf(ResponseSchemaException)
+    await expect(promise).rejects.toThrow('Response does not match its schema: ok: Expected boolean')
+    await expect(promise).rejects.toSatisfy((error: ResponseSchemaException) => error.getPaths()[0] === 'ok')
+  })
+
+  it('JsonResponse only warns in warn mode', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+    JsonResponse.setDefaultValidationMode(ResponseValidationMode.WARN)
+
+    const response = new JsonResponse<{ ok: boolean }>().setValidator(okValidator)
+
+    await response.setResponse({ ...mockResponseHandler, json: async () => ({ ok: 'yes' }) })
+
+    expect(response.getBody()).toEqual({ ok: 'yes' })
+    expect(warn).toHaveBeenCalledWith('@blueprint-ts/core: Response does not match its schema.', expect.any(ResponseSchemaException))
+
+    // The instance mode overrides the global one.
+    await expect(
+      new JsonResponse<{ ok: boolean }>()
+        .setValidator(okValidator, ResponseValidationMode.THROW)
+        .setResponse({ ...mockResponseHandler, json: async () => ({}) })
+    ).rejects.toBeInstanceOf(ResponseSchemaException)
+  })
+
   it('PlainTextResponse resolves text body', async () => {
     const response = new PlainTextResponse()
 
@@ -69,6 +125,26 @@ describe('Response classes', () => {
     expect(response.getBody()).toBeInstanceOf(Blob)
   })
 
+  it('ProblemDetailsResponse normalizes problem documents', async () => {
+    const response = new ProblemDetailsResponse<{ balance: number }>()
+
+    await response.setResponse({
+      ...mockResponseHandler,
+      getStatusCode: () => 403,
+      json: async () => ({ title: 'Out of credit', detail: 42, instance: '/account/12345', balance: 30 })
+    })
+
+    expect(response.getAcceptHeader()).toBe('application/problem+json')
+    expect(response.getBody()).toEqual({
+      type: 'about:blank',
+      title: 'Out of credit',
+      status: 403,
+      detail: undefined,
+      instance: '/account/12345',
+      extensions: { balance: 30 }
+    })
+  })
+
   it('throws when resolveBody is called without a response', () => {
     const response = new JsonResponse()
 
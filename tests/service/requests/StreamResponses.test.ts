@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { BaseRequest } from '../../../src/requests/BaseRequest'
+import { RequestMethodEnum } from '../../../src/requests/RequestMethod.enum'
+import { RequestEvents } from '../../../src/requests/RequestEvents.enum'
+import { RequestConcurrencyMode } from '../../../src/requests/RequestConcurrencyMode.enum'
+import { FetchResponse } from '../../../src/requests/drivers/fetch/FetchResponse'
+import { NdjsonResponse } from '../../../src/requests/responses/NdjsonResponse'
+import { EventStreamResponse } from '../../../src/requests/responses/EventStreamResponse'
+import { TextStreamResponse } from '../../../src/requests/responses/TextStreamResponse'
+import { StaleResponseException } from '../../../src/requests/exceptions/StaleResponseException'
+import { RequestAbortedException } from '../../../src/requests/exceptions/RequestAbortedException'
+import type { StreamResponse } from '../../../src/requests/responses/StreamResponse'
+import type { RequestDriverContract } from '../../../src/requests/contracts/RequestDriverContract'
+
+class ExportProgressRequest<Chunk, ResponseClass extends StreamResponse<Chunk>> extends BaseRequest<boolean, unknown, AsyncIterable<Chunk>, ResponseClass> {
+  public constructor(protected response: () => ResponseClass) {
+    super()
+  }
+
+  public method(): RequestMethodEnum {
+    return RequestMethodEnum.GET
+  }
+
+  public url(): string {
+    return '/exports/1/progress'
+  }
+
+  public getResponse(): ResponseClass {
+    return this.response()
+  }
+}
+
+const encoder = new TextEncoder()
+
+// A body stream that tests feed by hand, or all at once with `pushAll()`.
+const createStream = (chunks: string[]) => {
+  let controller: ReadableStreamDefaultController<Uint8Array>
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController
+    }
+  })
+
+  return {
+    stream,
+    push: (chunk: string) => controller.enqueue(encoder.encode(chunk)),
+    close: () => controller.close(),
+    pushAll: () => {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    }
+  }
+}
+
+const createDriver = (stream: ReadableStream<Uint8Array>): RequestDriverContract => ({
+  send: vi.fn().mockResolvedValue(new FetchResponse(new Response(stream, { status: 200 })))
+})
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = []
+
+  for await (const item of iterable) {
+    items.push(item)
+  }
+
+  return items
+}
+
+describe('Stream responses', () => {
+  beforeEach(() => {
+    BaseRequest.setDefaultBaseUrl('https://example.com')
+    BaseRequest.clearInterceptors()
+  })
+
+  it('parses NDJSON lines split across chunks', async () => {
+    const source = createStream(['{"progress":0.', '5}\n{"progress"', ':1}\n\n{"done":true}'])
+    const response = new NdjsonResponse<Record<string, unknown>>()
+
+    source.pushAll()
+    await response.setResponse(new FetchResponse(new Response(source.stream)))
+
+    expect(response.getAcceptHeader()).toBe('application/x-ndjson')
+    expect(await collect(response)).toEqual([{ progress: 0.5 }, { progress: 1 }, { done: true }])
+  })
+
+  it('parses server-sent event frames', async () => {
+    const source = createStream([
+      ': keep-alive\n\n',
+      'event: token\ndata: Hel',
+      'lo\r',
+      '\nid: 1\n\n',
+      'data: first\ndata:second\nretry: 3000\n\n',
+      'data: incomplete'
+    ])
+    const response = new EventStreamResponse()
+
+    source.pushAll()
+    await response.setResponse(new FetchResponse(new Response(source.stream)))
+
+    expect(response.getAcceptHeader()).toBe('text/event-stream')
+    expect(await collect(response)).toEqual([
+      { event: 'token', data: 'Hello', id: '1', retry: undefined },
+      { event: 'message', data: 'first\nsecond', id: '1', retry: 3000 }
+    ])
+  })
+
+  it('keeps the request loading until the stream is consumed', async () => {
+    const source = createStream([])
+    const loading = vi.fn()
+    const request = new ExportProgressRequest(() => new TextStreamResponse()).setRequestDriver(createDriver(source.stream))
+
+    request.on(RequestEvents.LOADING, loading)
+
+    const response = await request.send()
+    const iterator = response[Symbol.asyncIterator]()
+
+    source.push('10%')
+    expect(await iterator.next()).toEqual({ done: false, value: '10%' })
+    expect(loading.mock.calls).toEqual([[true]])
+
+    source.close()
+    expect(await iterator.next()).toEqual({ done: true, value: undefined })
+    expect(loading.mock.calls).toEqual([[true], [false]])
+  })
+
+  it('settles the request when the caller stops iterating early', async () => {
+    const source = createStream([])
+    const loading = vi.fn()
+    const request = new ExportProgressRequest(() => new TextStreamResponse()).setRequestDriver(createDriver(source.stream))
+
+    request.on(RequestEvents.LOADING, loading)
+    source.push('a')
+
+    for await (const chunk of await request.send()) {
+      expect(chunk).toBe('a')
+      break
+    }
+
+    expect(loading).toHaveBeenLastCalledWith(false)
+  })
+
+  it('rejects iteration with RequestAbortedException when the request is aborted', async () => {
+    const source = createStream([])
+    const controller = new AbortController()
+    const request = new ExportProgressRequest(() => new TextStreamResponse()).setRequestDriver(createDriver(source.stream))
+
+    request.setAbortSignal(controller.signal)
+
+    const iterator = (await request.send())[Symbol.asyncIterator]()
+    const next = iterator.next()
+
+    controller.abort()
+
+    await expect(next).rejects.toBeInstanceOf(RequestAbortedException)
+  })
+
+  it('throws StaleResponseException from outdated LATEST streams', async () => {
+    const first = createStream([])
+    const second = createStream(['fresh'])
+    const loading = vi.fn()
+
+    const stale = new ExportProgressRequest(() => new TextStreamResponse())
+      .setRequestDriver(createDriver(first.stream))
+      .setConcurrency({ mode: RequestConcurrencyMode.LATEST, key: 'export-progress' })
+    const latest = new ExportProgressRequest(() => new TextStreamResponse())
+      .setRequestDriver(createDriver(second.stream))
+      .setConcurrency({ mode: RequestConcurrencyMode.LATEST, key: 'export-progress' })
+
+    stale.on(RequestEvents.LOADING, loading)
+
+    const staleResponse = await stale.send()
+    const latestResponse = await latest.send()
+
+    first.push('old')
+    second.pushAll()
+
+    await expect(collect(staleResponse)).rejects.toBeInstanceOf(StaleResponseException)
+    expect(await collect(latestResponse)).toEqual(['fresh'])
+    expect(loading.mock.calls).toEqual([[true]])
+  })
+})
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { UrlTemplate } from '../../../src/requests/UrlTemplate'
+
+describe('UrlTemplate', () => {
+  it('expands path params', () => {
+    expect(UrlTemplate.expand('/projects/{project}/members/{member}', { project: 12, member: 'jane' })).toBe('/projects/12/members/jane')
+  })
+
+  it('encodes each value as a single path segment', () => {
+    const template = new UrlTemplate('/files/{name}')
+
+    expect(template.expand({ name: 'reports/2026 Q1?.pdf' })).toBe('/files/reports%2F2026%20Q1%3F.pdf')
+    expect(template.getTemplate()).toBe('/files/{name}')
+  })
+
+  it('throws for missing params', () => {
+    expect(() => UrlTemplate.expand('/projects/{project}', {} as { project: string })).toThrow(
+      'Missing URL parameter "project" for "/projects/{project}".'
+    )
+  })
+})
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { BaseRequest } from '../../../../src/requests/BaseRequest'
+import { JsonResponse } from '../../../../src/requests/responses/JsonResponse'
+import { RequestMethodEnum } from '../../../../src/requests/RequestMethod.enum'
+import { BearerTokenAuthenticator } from '../../../../src/requests/auth/BearerTokenAuthenticator'
+import { FetchResponse } from '../../../../src/requests/drivers/fetch/FetchResponse'
+import { ResponseException } from '../../../../src/requests/exceptions/ResponseException'
+import { UnauthorizedException } from '../../../../src/requests/exceptions/UnauthorizedException'
+import type { HeadersContract } from '../../../../src/requests/contracts/HeadersContract'
+import type { RequestDriverContract } from '../../../../src/requests/contracts/RequestDriverContract'
+
+class ProfileRequest extends BaseRequest<boolean, { message: string }, { ok: boolean }, JsonResponse<{ ok: boolean }>> {
+  public method(): RequestMethodEnum {
+    return RequestMethodEnum.GET
+  }
+
+  public url(): string {
+    return '/profile'
+  }
+
+  public getResponse(): JsonResponse<{ ok: boolean }> {
+    return new JsonResponse<{ ok: boolean }>()
+  }
+}
+
+const resolveAuthorization = (headers: HeadersContract): string | undefined => {
+  const value = headers['Authorization']
+
+  return typeof value === 'function' ? value() : value
+}
+
+// Accepts only the given token and rejects everything else with a 401, like an API would.
+const createDriver = (validToken: () => string): RequestDriverContract => ({
+  send: vi.fn().mockImplementation(async (_url: URL, _method: RequestMethodEnum, headers: HeadersContract) => {
+    if (resolveAuthorization(headers) !== `Bearer ${validToken()}`) {
+      throw new ResponseException(new FetchResponse(new Response(JSON.stringify({ message: 'Unauthenticated.' }), { status: 401 })))
+    }
+
+    return new FetchResponse(new Response(JSON.stringify({ ok: true }), { status: 200 }))
+  })
+})
+
+describe('BearerTokenAuthenticator', () => {
+  let token: string
+  let serverToken: string
+
+  beforeEach(() => {
+    token = 'expired'
+    serverToken = 'fresh'
+    BaseRequest.setDefaultBaseUrl('https://example.com')
+    BaseRequest.clearInterceptors()
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    BaseRequest.clearInterceptors()
+    vi.restoreAllMocks()
+  })
+
+  it('attaches the current token to every request', async () => {
+    token = 'fresh'
+    const driver = createDriver(() => serverToken)
+
+    BaseRequest.addInterceptor(new BearerTokenAuthenticator({ getToken: () => token, refresh: vi.fn() }))
+
+    await new ProfileRequest().setRequestDriver(driver).send()
+
+    const [, , headers] = (driver.send as ReturnType<typeof vi.fn>).mock.calls[0]
+
+    expect(resolveAuthorization(headers)).toBe('Bearer fresh')
+  })
+
+  it('refreshes once for concurrent 401s and replays every request', async () => {
+    const driver = createDriver(() => serverToken)
+    const refresh = vi.fn().mockImplementation(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      token = 'fresh'
+    })
+
+    BaseRequest.addInterceptor(new BearerTokenAuthenticator({ getToken: () => token, refresh }))
+
+    const responses = await Promise.all([1, 2, 3].map(() => new ProfileRequest().setRequestDriver(driver).send()))
+
+    expect(responses.map((response) => response.getBody())).toEqual([{ ok: true }, { ok: true }, { ok: true }])
+    expect(refresh).toHaveBeenCalledTimes(1)
+    expect(driver.send).toHaveBeenCalledTimes(6)
+  })
+
+  it('replays without refreshing when the token already changed', async () => {
+    const driver = createDriver(() => serverToken)
+    const refresh = vi.fn()
+    const authenticator = new BearerTokenAuthenticator({ getToken: () => token, refresh })
+
+    ;(driver.send as ReturnType<typeof vi.fn>).mockImplementationOnce(async () => {
+      token = 'fresh'
+
+      throw new ResponseException(new FetchResponse(new Response('{}', { status: 401 })))
+    })
+
+    await new ProfileRequest().setRequestDriver(driver).addInterceptor(authenticator).send()
+
+    expect(refresh).not.toHaveBeenCalled()
+    expect(driver.send).toHaveBeenCalledTimes(2)
+  })
+
+  it('calls the logout callback once when the refresh fails', async () => {
+    const driver = createDriver(() => serverToken)
+    const refreshError = new Error('refresh token revoked')
+    const onLogout = vi.fn()
+
+    BaseRequest.addInterceptor(
+      new BearerTokenAuthenticator({ getToken: () => token, refresh: vi.fn().mockRejectedValue(refreshError), onLogout })
+    )
+
+    const results = await Promise.allSettled([new ProfileRequest().setRequestDriver(driver).send(), new ProfileRequest().setRequestDriver(driver).send()])
+
+    expect(results.map((result) => (result as PromiseRejectedResult).reason)).toEqual([expect.any(UnauthorizedException), expect.any(UnauthorizedException)])
+    expect(onLogout).toHaveBeenCalledTimes(1)
+    expect(onLogout).toHaveBeenCalledWith(refreshError)
+  })
+
+  it('passes a second 401 through after replaying once', async () => {
+    serverToken = 'never-matches'
+    const driver = createDriver(() => serverToken)
+    const refresh = vi.fn().mockImplementation(async () => {
+      token = 'fresh'
+    })
+
+    BaseRequest.addInterceptor(new BearerTokenAuthenticator({ getToken: () => token, refresh }))
+
+    await expect(new ProfileRequest().setRequestDriver(driver).send()).rejects.toBeInstanceOf(UnauthorizedException)
+    expect(driver.send).toHaveBeenCalledTimes(2)
+  })
+
+  it('skips requests excluded by shouldAuthenticate', async () => {
+    const driver = createDriver(() => serverToken)
+    const refresh = vi.fn()
+
+    BaseRequest.addInterceptor(
+      new BearerTokenAuthenticator({ getToken: () => token, refresh, shouldAuthenticate: (context) => context.url.pathname !== '/profile' })
+    )
+
+    await expect(new ProfileRequest().setRequestDriver(driver).send()).rejects.toBeInstanceOf(UnauthorizedException)
+
+    const [, , headers] = (driver.send as ReturnType<typeof vi.fn>).mock.calls[0]
+
+    expect(headers['Authorization']).toBeUndefined()
+    expect(refresh).not.toHaveBeenCalled()
+  })
+})
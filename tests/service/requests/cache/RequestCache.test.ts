@@ -0,0 +1,267 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { BaseRequest } from '../../../../src/requests/BaseRequest'
+import { JsonResponse } from '../../../../src/requests/responses/JsonResponse'
+import { RequestMethodEnum } from '../../../../src/requests/RequestMethod.enum'
+import { RequestCache } from '../../../../src/requests/cache/RequestCache'
+import { CachedResponse } from '../../../../src/requests/cache/CachedResponse'
+import { FetchResponse } from '../../../../src/requests/drivers/fetch/FetchResponse'
+import { ResponseException } from '../../../../src/requests/exceptions/ResponseException'
+import { MemoryPersistenceDriver } from '../../../../src/persistenceDrivers/MemoryPersistenceDriver'
+import type { RequestDriverContract } from '../../../../src/requests/contracts/RequestDriverContract'
+
+class ProjectIndexRequest extends BaseRequest<boolean, { message: string }, { value: number }, JsonResponse<{ value: number }>> {
+  public constructor(
+    protected path: string = '/projects',
+    protected requestMethod: RequestMethodEnum = RequestMethodEnum.GET
+  ) {
+    super()
+  }
+
+  public method(): RequestMethodEnum {
+    return this.requestMethod
+  }
+
+  public url(): string {
+    return this.path
+  }
+
+  public getResponse(): JsonResponse<{ value: number }> {
+    return new JsonResponse<{ value: number }>()
+  }
+}
+
+const createResponse = (value: number, headers: Record<string, string> = {}) =>
+  new FetchResponse(new Response(JSON.stringify({ value }), { status: 200, headers: { 'Content-Type': 'application/json', ...headers } }))
+
+const createCountingDriver = (headers: Record<string, string> = {}): RequestDriverContract => {
+  let count = 0
+
+  return { send: vi.fn().mockImplementation(async () => createResponse(++count, headers)) }
+}
+
+const flush = async () => await new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('RequestCache', () => {
+  beforeEach(() => {
+    MemoryPersistenceDriver.clear()
+    BaseRequest.setDefaultBaseUrl('https://example.com')
+    BaseRequest.clearInterceptors()
+    vi.useFakeTimers({ toFake: ['Date'] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('serves fresh GET responses from the cache', async () => {
+    const cache = new RequestCache({ ttl: 1000 })
+    const driver = createCountingDriver()
+
+    const first = await new ProjectIndexRequest().setRequestDriver(driver).addInterceptor(cache).send()
+    const second = await new ProjectIndexRequest().setRequestDriver(driver).addInterceptor(cache).send()
+
+    expect(first.getBody()).toEqual({ value: 1 })
+    expect(second.getBody()).toEqual({ value: 1 })
+    expect(second.getRawResponse()?.status).toBe(200)
+    expect(driver.send).toHaveBeenCalledTimes(1)
+  })
+
+  it('never caches mutating requests', async () => {
+    const cache = new RequestCache()
+    const driver = createCountingDriver()
+
+    await new ProjectIndexRequest('/projects', RequestMethodEnum.POST).setRequestDriver(driver).addInterceptor(cache).send()
+    await new ProjectIndexRequest('/projects', RequestMethodEnum.POST).setRequestDriver(driver).addInterceptor(cache).send()
+
+    expect(driver.send).toHaveBeenCalledTimes(2)
+  })
+
+  it('keys entries by url and the configured vary headers', async () => {
+    const cache = new RequestCache({ varyHeaders: ['Accept-Language'] })
+    const driver = createCountingDriver()
+
+    const send = (path: string, language: string) =>
+      new ProjectIndexRequest(path).setRequestDriver(driver).setHeaders({ 'Accept-Language': language }).addInterceptor(cache).send()
+
+    await send('/projects', 'en')
+    await send('/projects', 'de')
+    await send('/projects?page=2', 'en')
+    const cached = await send('/projects', 'de')
+
+    expect(cached.getBody()).toEqual({ value: 2 })
+    expect(driver.send).toHaveBeenCalledTimes(3)
+  })
+
+  it('returns stale entries while revalidating in the background', async () => {
+    const cache = new RequestCache({ ttl: 1000, staleWhileRevalidate: 5000 })
+    const driver = createCountingDriver()
+
+    await new ProjectIndexRequest().setRequestDriver(driver).addInterceptor(cache).send()
+
+    vi.setSystemTime(Date.now() + 2000)
+
+    const stale = await new ProjectIndexRequest().setRequestDriver(driver).addInterceptor(cache).send()
+    await flush()
+    const revalidated = await new ProjectIndexRequest().setRequestDriver(driver).addInterceptor(cache).send()
+
+    expect(stale.getBody()).toEqual({ value: 1 })
+    expect(revalidated.getBody()).toEqual({ value: 2 })
+    expect(driver.send).toHaveBeenCalledTimes(2)
+  })
+
+  it('revalidates expired entries with ETag and Last-Modified', async () => {
+    const cache = new RequestCache({ ttl: 1000 })
+    const driver: RequestDriverContract = {
+      send: vi
+        .fn()
+        .mockResolvedValueOnce(createResponse(1, { ETag: '"v1"', 'Last-Modified': 'Wed, 21 Oct 2026 07:28:00 GMT' }))
+        .mockRejectedValueOnce(new ResponseException(new FetchResponse(new Response(null, { status: 304 }))))
+    }
+
+    await new ProjectIndexRequest().setRequestDriver(driver).addInterceptor(cache).send()
+
+    vi.setSystemTime(Date.now() + 2000)
+
+    const revalidated = await new ProjectIndexRequest().setRequestDriver(driver).addInterceptor(cache).send()
+    const [, , headers] = (driver.send as ReturnType<typeof vi.fn>).mock.calls[1]
+
+    expect(headers['If-None-Match']).toBe('"v1"')
+    expect(headers['If-Modified-Since']).toBe('Wed, 21 Oct 2026 07:28:00 GMT')
+    expect(revalidated.getBody()).toEqual({ value: 1 })
+
+    await new ProjectIndexRequest().setRequestDriver(driver).addInterceptor(cache).send()
+
+    expect(driver.send).toHaveBeenCalledTimes(2)
+  })
+
+  it('skips responses marked no-store', async () => {
+    const cache = new RequestCache()
+    const driver = createCountingDriver({ 'Cache-Control': 'private, no-store' })
+
+    await new ProjectIndexRequest().setRequestDriver(driver).addInterceptor(cache).send()
+    await new ProjectIndexRequest().setRequestDriver(driver).addInterceptor(cache).send()
+
+    expect(driver.send).toHaveBeenCalledTimes(2)
+  })
+
+  it('bypasses the cache for authenticated requests by default', async () => {
+    const cache = new RequestCache()
+    const driver = createCountingDriver()
+
+    const send = (token: string) =>
+      new ProjectIndexRequest().setRequestDriver(driver).setHeaders({ Authorization: `Bearer ${token}` }).addInterceptor(cache).send()
+
+    await send('first')
+    const other = await send('second')
+
+    expect(other.getBody()).toEqual({ value: 2 })
+    expect(cache.get('GET https://example.com/projects')).toBeUndefined()
+  })
+
+  it('keys authenticated entries by the Authorization header in a private cache', async () => {
+    const cache = new RequestCache({ privateCache: true })
+    const driver = createCountingDriver({ 'Cache-Control': 'private, max-age=60' })
+
+    const send = (token: string) =>
+      new ProjectIndexRequest().setRequestDriver(driver).setHeaders({ Authorization: () => `Bearer ${token}` }).addInterceptor(cache).send()
+
+    await send('first')
+    const other = await send('second')
+    const cached = await send('first')
+
+    expect(other.getBody()).toEqual({ value: 2 })
+    expect(cached.getBody()).toEqual({ value: 1 })
+    expect(driver.send).toHaveBeenCalledTimes(2)
+  })
+
+  it('skips responses marked private unless the cache is private', async () => {
+    const cache = new RequestCache()
+    const driver = createCountingDriver({ 'Cache-Control': 'private' })
+
+    await new ProjectIndexRequest().setRequestDriver(driver).addInterceptor(cache).send()
+    await new ProjectIndexRequest().setRequestDriver(driver).addInterceptor(cache).send()
+
+    expect(driver.send).toHaveBeenCalledTimes(2)
+  })
+
+  it('revalidates no-cache entries before every use', async () => {
+    const cache = new RequestCache({ ttl: 60000 })
+    const driver: RequestDriverContract = {
+      send: vi
+        .fn()
+        .mockResolvedValueOnce(createResponse(1, { 'Cache-Control': 'no-cache', ETag: '"v1"' }))
+        .mockRejectedValueOnce(new ResponseException(new FetchResponse(new Response(null, { status: 304 }))))
+    }
+
+    await new ProjectIndexRequest().setRequestDriver(driver).addInterceptor(cache).send()
+    const revalidated = await new ProjectIndexRequest().setRequestDriver(driver).addInterceptor(cache).send()
+    const [, , headers] = (driver.send as ReturnType<typeof vi.fn>).mock.calls[1]
+
+    expect(headers['If-None-Match']).toBe('"v1"')
+    expect(revalidated.getBody()).toEqual({ value: 1 })
+    expect(driver.send).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not wait for response bodies that never end', async () => {
+    const cache = new RequestCache()
+    const createStream = (contentType: string) =>
+      new FetchResponse(
+        new Response(
+          new ReadableStream<Uint8Array>({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode('data: 1\n\n'))
+            }
+          }),
+          { status: 200, headers: { 'Content-Type': contentType } }
+        )
+      )
+    const driver: RequestDriverContract = {
+      send: vi
+        .fn()
+        .mockImplementation(async (url: URL) => createStream(url.pathname === '/events' ? 'text/event-stream' : 'application/octet-stream'))
+    }
+
+    const events = await new ProjectIndexRequest('/events').setRequestDriver(driver).addInterceptor(cache).send({ resolveBody: false })
+    const download = await new ProjectIndexRequest('/download').setRequestDriver(driver).addInterceptor(cache).send({ resolveBody: false })
+    await flush()
+
+    expect(events.getStatusCode()).toBe(200)
+    expect(download.getStatusCode()).toBe(200)
+    expect(cache.get('GET https://example.com/events')).toBeUndefined()
+    expect(cache.get('GET https://example.com/download')).toBeUndefined()
+  })
+
+  it('invalidates entries by key or url prefix', async () => {
+    const cache = new RequestCache()
+    const driver = createCountingDriver()
+
+    await new ProjectIndexRequest('/projects').setRequestDriver(driver).addInterceptor(cache).send()
+    await new ProjectIndexRequest('/users').setRequestDriver(driver).addInterceptor(cache).send()
+
+    cache.invalidate('https://example.com/projects')
+
+    expect(cache.get('GET https://example.com/projects')).toBeUndefined()
+    expect(cache.get('GET https://example.com/users')).toBeDefined()
+
+    cache.invalidate('GET ')
+
+    expect(cache.get('GET https://example.com/users')).toBeUndefined()
+  })
+
+  it('restores binary bodies from storage', async () => {
+    const bytes = new Uint8Array([0, 1, 2, 253, 254, 255])
+    const response = new CachedResponse({
+      key: 'GET https://example.com/file',
+      url: 'https://example.com/file',
+      status: 200,
+      statusText: 'OK',
+      headers: { 'content-type': 'application/octet-stream' },
+      body: CachedResponse.encodeBody(bytes.buffer),
+      storedAt: Date.now()
+    })
+
+    expect(new Uint8Array(await (await response.blob()).arrayBuffer())).toEqual(bytes)
+    expect(new Uint8Array(await (await response.blob()).arrayBuffer())).toEqual(bytes)
+  })
+})
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { defineRequest } from '../../../src/requests/defineRequest'
+import { BaseRequest } from '../../../src/requests/BaseRequest'
+import { JsonResponse } from '../../../src/requests/responses/JsonResponse'
+import { JsonBodyFactory } from '../../../src/requests/factories/JsonBodyFactory'
+import { RequestMethodEnum } from '../../../src/requests/RequestMethod.enum'
+import { FetchResponse } from '../../../src/requests/drivers/fetch/FetchResponse'
+import { BulkRequestSender, BulkRequestExecutionMode } from '../../../src/bulkRequests/BulkRequestSender'
+import { BulkRequestWrapper } from '../../../src/bulkRequests/BulkRequestWrapper'
+import type { RequestDriverContract } from '../../../src/requests/contracts/RequestDriverContract'
+
+const ProjectMemberUpdateRequest = defineRequest({
+  method: RequestMethodEnum.PUT,
+  url: '/projects/{project}/members/{member}',
+  response: () => new JsonResponse<{ id: number; role: string }>(),
+  body: () => new JsonBodyFactory<{ role: string }>(),
+  params: {} as { notify?: boolean },
+  headers: { 'X-Client': 'web' }
+})
+
+const ProjectIndexRequest = defineRequest({
+  method: RequestMethodEnum.GET,
+  url: '/projects',
+  response: () => new JsonResponse<{ id: number }[]>(),
+  params: { page: 1 } as { page?: number; search?: string }
+})
+
+const createDriver = (body: unknown): RequestDriverContract => ({
+  send: vi.fn().mockImplementation(async () => new FetchResponse(new Response(JSON.stringify(body), { status: 200 })))
+})
+
+describe('defineRequest', () => {
+  beforeEach(() => {
+    BaseRequest.setDefaultBaseUrl('https://example.com')
+    BaseRequest.clearInterceptors()
+  })
+
+  it('produces BaseRequest instances from the definition', async () => {
+    const driver = createDriver({ id: 3, role: 'admin' })
+    const request = new ProjectMemberUpdateRequest({ project: 'acme/web', member: 3 })
+      .setRequestDriver(driver)
+      .setParams({ notify: true })
+      .setBody({ role: 'admin' })
+
+    const response = await request.send()
+    const [url, method, headers, body] = (driver.send as ReturnType<typeof vi.fn>).mock.calls[0]
+
+    expect(request).toBeInstanceOf(BaseRequest)
+    expect(url.toString()).toBe('https://example.com/projects/acme%2Fweb/members/3?notify=true')
+    expect(method).toBe(RequestMethodEnum.PUT)
+    expect(headers).toMatchObject({ Accept: 'application/json', 'X-Client': 'web' })
+    expect(body.getContent()).toBe('{"role":"admin"}')
+    expect(response.getBody()).toEqual({ id: 3, role: 'admin' })
+  })
+
+  it('applies default params without sharing them between instances', () => {
+    const first = new ProjectIndexRequest().withParams({ search: 'foo' })
+    const second = new ProjectIndexRequest()
+
+    expect(first.buildUrl().search).toBe('?page=1&search=foo')
+    expect(second.getParams()).toEqual({ page: 1 })
+    expect(second.getRequestBodyFactory()).toBeUndefined()
+  })
+
+  it('works with BulkRequestSender', async () => {
+    const driver = createDriver([{ id: 1 }])
+    const wrappers = [1, 2].map((page) => new BulkRequestWrapper(new ProjectIndexRequest().setRequestDriver(driver).setParams({ page })))
+
+    const result = await new BulkRequestSender(wrappers, BulkRequestExecutionMode.PARALLEL).send()
+
+    expect(result.getSuccessCount()).toBe(2)
+    expect(driver.send).toHaveBeenCalledTimes(2)
+  })
+})
@@ -3,6 +3,8 @@ import { ResponseException } from '../../../../src/requests/exceptions/ResponseE
 import { ResponseBodyException } from '../../../../src/requests/exceptions/ResponseBodyException'
 import { BadRequestException } from '../../../../src/requests/exceptions/BadRequestException'
 import { StaleResponseException } from '../../../../src/requests/exceptions/StaleResponseException'
+import { NetworkException } from '../../../../src/requests/exceptions/NetworkException'
+import { RequestAbortedException } from '../../../../src/requests/exceptions/RequestAbortedException'
 
 const mockResponse = {
   getStatusCode: () => 400,
@@ -40,4 +42,12 @@ describe('Request exceptions', () => {
     expect(exception.message).toBe('stale')
     expect(exception.getCause()).toBe(cause)
   })
+
+  it('NetworkException and RequestAbortedException expose their cause', () => {
+    const cause = new TypeError('Failed to fetch')
+
+    expect(new NetworkException(undefined, cause).getCause()).toBe(cause)
+    expect(new NetworkException().message).toBe('Network request failed.')
+    expect(new RequestAbortedException().name).toBe('AbortError')
+  })
 })
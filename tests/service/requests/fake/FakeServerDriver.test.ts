@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { FakeServerDriver } from '../../../../src/requests/drivers/fake/FakeServerDriver'
+import { FakeResourceCollection } from '../../../../src/requests/drivers/fake/FakeResourceCollection'
+import { jsonResponse } from '../../../../src/requests/drivers/mock/MockRequestTestHelpers'
+import { BaseRequest } from '../../../../src/requests/BaseRequest'
+import { ErrorHandler } from '../../../../src/requests/ErrorHandler'
+import { RequestMethodEnum } from '../../../../src/requests/RequestMethod.enum'
+import { JsonBody } from '../../../../src/requests/bodies/JsonBody'
+import { FormDataBody } from '../../../../src/requests/bodies/FormDataBody'
+import { NotFoundException } from '../../../../src/requests/exceptions/NotFoundException'
+import { ValidationException } from '../../../../src/requests/exceptions/ValidationException'
+import { ResponseException } from '../../../../src/requests/exceptions/ResponseException'
+import { RequestAbortedException } from '../../../../src/requests/exceptions/RequestAbortedException'
+import type { BodyContract } from '../../../../src/requests/contracts/BodyContract'
+import { JsonBaseRequest, PaginationJsonBaseRequest } from '../../../../src/laravel/requests'
+
+interface Project {
+  id: number
+  name: string
+}
+
+class ProjectIndexRequest extends PaginationJsonBaseRequest<boolean, { message: string }, Project[], { page_number?: number; page_size?: number }> {
+  public method(): RequestMethodEnum {
+    return RequestMethodEnum.GET
+  }
+
+  public url(): string {
+    return '/api/projects'
+  }
+}
+
+class ProjectStoreRequest extends JsonBaseRequest<boolean, { message: string; errors: Record<string, string[]> }, Project, Partial<Project>> {
+  public method(): RequestMethodEnum {
+    return RequestMethodEnum.POST
+  }
+
+  public url(): string {
+    return '/api/projects'
+  }
+}
+
+class ProjectShowRequest extends JsonBaseRequest<boolean, { message: string }, Project> {
+  public constructor(protected id: number) {
+    super()
+  }
+
+  public method(): RequestMethodEnum {
+    return RequestMethodEnum.GET
+  }
+
+  public url(): string {
+    return `/api/projects/${this.id}`
+  }
+}
+
+describe('FakeServerDriver', () => {
+  let server: FakeServerDriver
+  let projects: FakeResourceCollection<Project>
+
+  beforeEach(() => {
+    BaseRequest.setDefaultBaseUrl('https://example.com')
+    ErrorHandler.registerHandler(undefined)
+
+    server = new FakeServerDriver({ basePath: '/api' })
+    projects = server.collection<Project>('projects', [
+      { id: 1, name: 'Alpha' },
+      { id: 2, name: 'Beta' },
+      { id: 3, name: 'Gamma' }
+    ])
+
+    server.resource('/projects', projects, {
+      validate: (body) => (typeof body['name'] === 'string' && body['name'] !== '' ? undefined : { name: ['The name field is required.'] })
+    })
+
+    BaseRequest.setRequestDriver(server)
+  })
+
+  it('routes requests to handlers with path parameters and query', async () => {
+    server.get('/teams/:team/members/:member', (request) =>
+      jsonResponse(200, { team: request.params['team'], member: request.params['member'], include: request.query['include'] })
+    )
+
+    const response = await server.send('https://example.com/api/teams/core/members/a%20b?include=roles', RequestMethodEnum.GET, {})
+
+    await expect(response.json()).resolves.toEqual({ team: 'core', member: 'a b', include: 'roles' })
+  })
+
+  it('serves paginated collections compatible with PaginationResponse', async () => {
+    const response = await new ProjectIndexRequest().setPaginationParams(2, 2).send()
+
+    expect(response.getData()).toEqual([{ id: 3, name: 'Gamma' }])
+    expect(response.getTotal()).toBe(3)
+    expect(response.getBody().meta).toMatchObject({ current_page: 2, per_page: 2, last_page: 2 })
+  })
+
+  it('creates, shows, updates and deletes resources', async () => {
+    const created = await new ProjectStoreRequest().setBody({ name: 'Delta' }).send()
+
+    expect(created.getRawResponse()?.status).toBe(201)
+    expect(created.getBody()).toEqual({ data: { id: 4, name: 'Delta' } })
+
+    const shown = await new ProjectShowRequest(4).send()
+    expect(shown.getBody().data.name).toBe('Delta')
+
+    const updated = await server.send('https://example.com/api/projects/4', RequestMethodEnum.PATCH, {}, new JsonBody({ name: 'Delta 2' }))
+    await expect(updated.json()).resolves.toEqual({ data: { id: 4, name: 'Delta 2' } })
+
+    await server.send('https://example.com/api/projects/4', RequestMethodEnum.DELETE, {})
+
+    expect(projects.find(4)).toBeUndefined()
+    await expect(new ProjectShowRequest(4).send()).rejects.toBeInstanceOf(NotFoundException)
+  })
+
+  it('rejects invalid bodies with validation envelopes', async () => {
+    const error = await new ProjectStoreRequest()
+      .setBody({ name: '' })
+      .send()
+      .catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(ValidationException)
+    expect(error.getBody()).toEqual({ message: 'The given data was invalid.', errors: { name: ['The name field is required.'] } })
+    expect(projects.count()).toBe(3)
+  })
+
+  it('parses multipart bodies into nested fields', async () => {
+    const file = new File(['abc'], 'logo.png', { type: 'image/png' })
+    let received: unknown
+
+    server.post('/uploads', (request) => {
+      received = request.body
+
+      return jsonResponse(201, { ok: true })
+    })
+
+    await server.send('https://example.com/api/uploads', RequestMethodEnum.POST, {}, new FormDataBody({ project: { name: 'Alpha', tags: ['a', 'b'] }, logo: file }))
+
+    expect(received).toEqual({ project: { name: 'Alpha', tags: ['a', 'b'] }, logo: file })
+  })
+
+  it('answers malformed JSON bodies and path parameters with 400', async () => {
+    const malformedBody: BodyContract = { getHeaders: () => ({ 'Content-Type': 'application/json' }), getContent: () => '{"name":' }
+
+    const invalidJson = await server.send('https://example.com/api/projects', RequestMethodEnum.POST, {}, malformedBody).catch((caught) => caught)
+    const invalidPath = await server.send('https://example.com/api/projects/%E0%A4%A', RequestMethodEnum.GET, {}).catch((caught) => caught)
+
+    expect(invalidJson).toBeInstanceOf(ResponseException)
+    expect(invalidJson.getResponse().getStatusCode()).toBe(400)
+    await expect(invalidJson.getResponse().json()).resolves.toEqual({ message: 'The request body is not valid JSON.' })
+    expect(invalidPath).toBeInstanceOf(ResponseException)
+    expect(invalidPath.getResponse().getStatusCode()).toBe(400)
+    expect(projects.count()).toBe(3)
+  })
+
+  it('answers unknown routes with 404 and honours aborts during the delay', async () => {
+    const error = await server.send('https://example.com/api/unknown', RequestMethodEnum.GET, {}).catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(ResponseException)
+    expect(error.getResponse().getStatusCode()).toBe(404)
+    await expect(error.getResponse().json()).resolves.toEqual({ message: 'No fake route for GET /unknown.' })
+
+    const controller = new AbortController()
+    const pending = new FakeServerDriver({ delay: 50 }).send('https://example.com/', RequestMethodEnum.GET, {}, undefined, { abortSignal: controller.signal })
+
+    controller.abort()
+
+    await expect(pending).rejects.toBeInstanceOf(RequestAbortedException)
+  })
+  it('only strips the base path on a segment boundary', async () => {
+    const versioned = new FakeServerDriver({ basePath: '/api/v1' })
+
+    versioned.get('/', () => jsonResponse(200, { route: 'root' }))
+    versioned.get('/projects', () => jsonResponse(200, { route: 'projects' }))
+
+    await expect((await versioned.send('https://example.com/api/v1', RequestMethodEnum.GET, {})).json()).resolves.toEqual({ route: 'root' })
+    await expect((await versioned.send('https://example.com/api/v1/projects', RequestMethodEnum.GET, {})).json()).resolves.toEqual({ route: 'projects' })
+
+    const error = await versioned.send('https://example.com/api/v10/projects', RequestMethodEnum.GET, {}).catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(ResponseException)
+    await expect(error.getResponse().json()).resolves.toEqual({ message: 'No fake route for GET /api/v10/projects.' })
+  })
+})
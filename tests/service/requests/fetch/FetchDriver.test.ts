@@ -3,8 +3,29 @@ import { FetchDriver } from '../../../../src/requests/drivers/fetch/FetchDriver'
 import { FetchResponse } from '../../../../src/requests/drivers/fetch/FetchResponse'
 import { RequestMethodEnum } from '../../../../src/requests/RequestMethod.enum'
 import { ResponseException } from '../../../../src/requests/exceptions/ResponseException'
+import { TimeoutException } from '../../../../src/requests/exceptions/TimeoutException'
+import { NetworkException } from '../../../../src/requests/exceptions/NetworkException'
+import { RequestAbortedException } from '../../../../src/requests/exceptions/RequestAbortedException'
 import type { BodyContent, BodyContract } from '../../../../src/requests/contracts/BodyContract'
 
+const hangingFetch = (_url: unknown, config: RequestInit) =>
+  new Promise<Response>((_resolve, reject) => {
+    config.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')))
+  })
+
+const stallingBodyFetch = (_url: unknown, config: RequestInit) =>
+  Promise.resolve(
+    new Response(
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('{"partial":'))
+          config.signal?.addEventListener('abort', () => controller.error(new DOMException('The operation was aborted.', 'AbortError')))
+        },
+      }),
+      { status: 200 }
+    )
+  )
+
 const createBody = (content: BodyContent, headers: Record<string, string> = { 'Content-Type': 'application/json' }): BodyContract => ({
   getHeaders: () => headers,
   getContent: () => content,
@@ -91,4 +112,145 @@ describe('FetchDriver', () => {
 
     await expect(driver.send('https://example.com', RequestMethodEnum.GET, {})).rejects.toBeInstanceOf(ResponseException)
   })
+
+  it('reports download progress while streaming the response body', async () => {
+    const encoder = new TextEncoder()
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode('{"ok":'))
+        controller.enqueue(encoder.encode('true}'))
+        controller.close()
+      },
+    })
+
+    ;(global.fetch as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(
+      new Response(body, { status: 200, headers: { 'Content-Length': '11', 'X-Response': 'yes' } })
+    )
+
+    const onDownloadProgress = vi.fn()
+    const driver = new FetchDriver()
+
+    const result = await driver.send('https://example.com', RequestMethodEnum.GET, {}, undefined, { onDownloadProgress })
+
+    await expect(result.json()).resolves.toEqual({ ok: true })
+    expect(result.getHeaders()['x-response']).toBe('yes')
+    expect(onDownloadProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { loaded: 6, total: 11, lengthComputable: true, progress: 6 / 11 },
+      { loaded: 11, total: 11, lengthComputable: true, progress: 1 },
+    ])
+  })
+
+  it('reports download progress without a known length', async () => {
+    ;(global.fetch as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(new Response('chunk', { status: 200 }))
+
+    const onDownloadProgress = vi.fn()
+    const result = await new FetchDriver().send('https://example.com', RequestMethodEnum.GET, {}, undefined, { onDownloadProgress })
+
+    await expect(result.text()).resolves.toBe('chunk')
+    expect(onDownloadProgress).toHaveBeenCalledWith({ loaded: 5, total: undefined, lengthComputable: false, progress: undefined })
+  })
+
+  it('rejects with TimeoutException when the request exceeds its timeout', async () => {
+    ;(global.fetch as unknown as ReturnType<typeof vi.fn>).mockImplementation(hangingFetch)
+
+    const driver = new FetchDriver()
+    const promise = driver.send('https://example.com', RequestMethodEnum.GET, {}, undefined, { timeout: 10 })
+
+    await expect(promise).rejects.toBeInstanceOf(TimeoutException)
+    await expect(promise).rejects.toMatchObject({ name: 'TimeoutException' })
+  })
+
+  it('falls back to the driver default timeout', async () => {
+    ;(global.fetch as unknown as ReturnType<typeof vi.fn>).mockImplementation(hangingFetch)
+
+    const driver = new FetchDriver({ timeout: 10 })
+
+    await expect(driver.send('https://example.com', RequestMethodEnum.GET, {})).rejects.toBeInstanceOf(TimeoutException)
+  })
+
+  it('keeps user aborts distinguishable from timeouts', async () => {
+    ;(global.fetch as unknown as ReturnType<typeof vi.fn>).mockImplementation(hangingFetch)
+
+    const controller = new AbortController()
+    const driver = new FetchDriver({ timeout: 1000 })
+    const promise = driver.send('https://example.com', RequestMethodEnum.GET, {}, undefined, { abortSignal: controller.signal })
+
+    controller.abort()
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' })
+    await expect(promise).rejects.toBeInstanceOf(RequestAbortedException)
+  })
+
+  it('cancels the response body when the caller aborts while it is being read', async () => {
+    ;(global.fetch as unknown as ReturnType<typeof vi.fn>).mockImplementation(stallingBodyFetch)
+
+    const controller = new AbortController()
+    const driver = new FetchDriver({ timeout: 1000 })
+    const result = await driver.send('https://example.com', RequestMethodEnum.GET, {}, undefined, { abortSignal: controller.signal })
+    const body = result.text()
+
+    controller.abort()
+
+    await expect(body).rejects.toBeInstanceOf(RequestAbortedException)
+  })
+
+  it('maps body read failures to typed exceptions without a timeout', async () => {
+    ;(global.fetch as unknown as ReturnType<typeof vi.fn>).mockImplementation(stallingBodyFetch)
+
+    const controller = new AbortController()
+    const aborted = await new FetchDriver().send('https://example.com', RequestMethodEnum.GET, {}, undefined, { abortSignal: controller.signal })
+    const abortedBody = aborted.text()
+
+    controller.abort()
+
+    await expect(abortedBody).rejects.toBeInstanceOf(RequestAbortedException)
+
+    const failure = new TypeError('terminated')
+    ;(global.fetch as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(
+      new Response(
+        new ReadableStream<Uint8Array>({
+          pull(streamController) {
+            streamController.error(failure)
+          },
+        }),
+        { status: 200 }
+      )
+    )
+
+    const dropped = await new FetchDriver().send('https://example.com', RequestMethodEnum.GET, {})
+
+    await expect(dropped.text()).rejects.toBeInstanceOf(NetworkException)
+  })
+
+  it('times out when the response body stalls', async () => {
+    ;(global.fetch as unknown as ReturnType<typeof vi.fn>).mockImplementation(stallingBodyFetch)
+
+    const result = await new FetchDriver().send('https://example.com', RequestMethodEnum.GET, {}, undefined, { timeout: 10 })
+
+    await expect(result.text()).rejects.toBeInstanceOf(TimeoutException)
+  })
+
+  it('stops listening to the caller signal once the body is consumed', async () => {
+    ;(global.fetch as unknown as ReturnType<typeof vi.fn>).mockImplementation(() => Promise.resolve(new Response('done', { status: 200 })))
+
+    const controller = new AbortController()
+    const removeEventListener = vi.spyOn(controller.signal, 'removeEventListener')
+    const result = await new FetchDriver({ timeout: 1000 }).send('https://example.com', RequestMethodEnum.GET, {}, undefined, {
+      abortSignal: controller.signal,
+    })
+
+    expect(removeEventListener).not.toHaveBeenCalled()
+    await expect(result.text()).resolves.toBe('done')
+    expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function))
+  })
+
+  it('wraps fetch network failures in NetworkException', async () => {
+    const failure = new TypeError('Failed to fetch')
+    ;(global.fetch as unknown as ReturnType<typeof vi.fn>).mockRejectedValue(failure)
+
+    const promise = new FetchDriver().send('https://example.com', RequestMethodEnum.GET, {})
+
+    await expect(promise).rejects.toBeInstanceOf(NetworkException)
+    await expect(promise).rejects.toMatchObject({ cause: failure })
+  })
 })
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import { HarReplayDriver } from '../../../../src/requests/drivers/har/HarReplayDriver'
+import { RecordingRequestDriver } from '../../../../src/requests/drivers/har/RecordingRequestDriver'
+import { MockRequestDriver } from '../../../../src/requests/drivers/mock/MockRequestDriver'
+import { MockRequestAssertionError } from '../../../../src/requests/drivers/mock/MockRequestAssertionError'
+import { jsonResponse } from '../../../../src/requests/drivers/mock/MockRequestTestHelpers'
+import { RequestMethodEnum } from '../../../../src/requests/RequestMethod.enum'
+import { JsonBody } from '../../../../src/requests/bodies/JsonBody'
+import { UrlEncodedBody } from '../../../../src/requests/bodies/UrlEncodedBody'
+import { NetworkException } from '../../../../src/requests/exceptions/NetworkException'
+import type { Har, HarEntry } from '../../../../src/requests/types/Har'
+
+const createEntry = (request: Partial<HarEntry['request']>, response: Partial<HarEntry['response']> = {}): HarEntry => ({
+  startedDateTime: '2026-01-01T00:00:00.000Z',
+  time: 1,
+  request: {
+    method: 'GET',
+    url: 'https://example.com/projects',
+    httpVersion: 'HTTP/1.1',
+    headers: [],
+    queryString: [],
+    cookies: [],
+    headersSize: -1,
+    bodySize: 0,
+    ...request
+  },
+  response: {
+    status: 200,
+    statusText: 'OK',
+    httpVersion: 'HTTP/1.1',
+    headers: [{ name: 'Content-Type', value: 'application/json' }],
+    cookies: [],
+    content: { size: 11, mimeType: 'application/json', text: '{"data":[]}' },
+    redirectURL: '',
+    headersSize: -1,
+    bodySize: 11,
+    ...response
+  },
+  cache: {},
+  timings: { send: 0, wait: 1, receive: 0 }
+})
+
+const createHar = (entries: HarEntry[]): Har => ({ log: { version: '1.2', creator: { name: 'tests', version: '1.0' }, entries } })
+
+describe('HarReplayDriver', () => {
+  it('replays a recorded session', async () => {
+    const recorder = new RecordingRequestDriver(
+      new MockRequestDriver()
+        .expect({ method: RequestMethodEnum.POST, url: 'https://example.com/oauth/token', response: jsonResponse(200, { token: 'abc' }) })
+        .expect({ method: RequestMethodEnum.GET, url: 'https://example.com/me', response: jsonResponse(200, { id: 1 }) })
+    )
+
+    await recorder.send('https://example.com/oauth/token', RequestMethodEnum.POST, {}, new UrlEncodedBody({ grant_type: 'password' }))
+    await recorder.send('https://example.com/me', RequestMethodEnum.GET, {})
+
+    const driver = new HarReplayDriver(JSON.stringify(await recorder.getHar()))
+
+    const token = await driver.send('https://example.com/oauth/token', RequestMethodEnum.POST, {}, new UrlEncodedBody({ grant_type: 'password' }))
+    const me = await driver.send('https://example.com/me', RequestMethodEnum.GET, {})
+
+    await expect(token.json()).resolves.toEqual({ token: 'abc' })
+    await expect(me.json()).resolves.toEqual({ id: 1 })
+    expect(() => driver.assertExpectationsMet()).not.toThrow()
+  })
+
+  it('reports body mismatches with the mock driver diff output', async () => {
+    const driver = new HarReplayDriver(
+      createHar([createEntry({ method: 'POST', postData: { mimeType: 'application/json', text: '{"name":"Ada","role":"admin"}' } })])
+    )
+
+    const error = await driver
+      .send('https://example.com/projects', RequestMethodEnum.POST, {}, new JsonBody({ name: 'Ada', role: 'user' }))
+      .catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(MockRequestAssertionError)
+    expect(error.message).toContain('JSON body did not match.')
+    expect(error.message).toContain('Differing JSON paths: role')
+  })
+
+  it('supports looser matching and repeated entries', async () => {
+    const driver = new HarReplayDriver(
+      createHar([
+        createEntry({
+          url: 'https://example.com/projects?page=1',
+          headers: [
+            { name: 'Accept-Language', value: 'en' },
+            { name: 'X-Trace', value: '1' }
+          ]
+        })
+      ]),
+      { matchQuery: false, matchHeaders: ['accept-language'], repeat: true }
+    )
+
+    await driver.send('https://example.com/projects?page=2', RequestMethodEnum.GET, { 'Accept-Language': 'en', 'X-Trace': '2' })
+    const response = await driver.send('https://example.com/projects', RequestMethodEnum.GET, { 'Accept-Language': 'en' })
+
+    await expect(response.json()).resolves.toEqual({ data: [] })
+    await expect(driver.send('https://example.com/projects', RequestMethodEnum.GET, { 'Accept-Language': 'de' })).rejects.toThrow(
+      'Mock request headers mismatch.'
+    )
+  })
+
+  it('restores base64 bodies and drops encoding headers', async () => {
+    const driver = new HarReplayDriver(
+      createHar([
+        createEntry(
+          {},
+          {
+            headers: [
+              { name: 'Content-Type', value: 'application/octet-stream' },
+              { name: 'Content-Encoding', value: 'gzip' }
+            ],
+            content: { size: 2, mimeType: 'application/octet-stream', text: 'AP8=', encoding: 'base64' }
+          }
+        )
+      ])
+    )
+
+    const response = await driver.send('https://example.com/projects', RequestMethodEnum.GET, {})
+
+    expect(new Uint8Array(await (await response.blob()).arrayBuffer())).toEqual(new Uint8Array([0, 255]))
+    expect(response.getHeaders()['content-encoding']).toBeUndefined()
+  })
+
+  it('replays entries recorded with relative URLs', async () => {
+    const driver = new HarReplayDriver(createHar([createEntry({ url: '/projects?page=2' })]))
+
+    const response = await driver.send('/projects?page=2', RequestMethodEnum.GET, {})
+
+    await expect(response.json()).resolves.toEqual({ data: [] })
+  })
+
+  it('replays status 0 entries as network failures', async () => {
+    const driver = new HarReplayDriver(
+      createHar([createEntry({}, { status: 0, statusText: '', headers: [], content: { size: 0, mimeType: 'x-unknown' } })])
+    )
+
+    await expect(driver.send('https://example.com/projects', RequestMethodEnum.GET, {})).rejects.toBeInstanceOf(NetworkException)
+    expect(() => driver.assertExpectationsMet()).not.toThrow()
+  })
+})
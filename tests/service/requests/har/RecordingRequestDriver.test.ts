@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import { RecordingRequestDriver } from '../../../../src/requests/drivers/har/RecordingRequestDriver'
+import { MockRequestDriver } from '../../../../src/requests/drivers/mock/MockRequestDriver'
+import { jsonResponse, validationError } from '../../../../src/requests/drivers/mock/MockRequestTestHelpers'
+import { ResponseException } from '../../../../src/requests/exceptions/ResponseException'
+import { RequestMethodEnum } from '../../../../src/requests/RequestMethod.enum'
+import { JsonBody } from '../../../../src/requests/bodies/JsonBody'
+import { FormDataBody } from '../../../../src/requests/bodies/FormDataBody'
+
+describe('RecordingRequestDriver', () => {
+  it('records requests and responses as HAR 1.2 entries', async () => {
+    const inner = new MockRequestDriver().expect({
+      method: RequestMethodEnum.POST,
+      url: 'https://example.com/projects?draft=1',
+      response: jsonResponse(201, { id: 1 }, { 'X-Request-Id': 'abc' })
+    })
+    const driver = new RecordingRequestDriver(inner, { creator: { name: 'tests', version: '1.0' } })
+
+    const response = await driver.send(
+      new URL('https://example.com/projects?draft=1'),
+      RequestMethodEnum.POST,
+      { Accept: 'application/json', 'X-Token': () => 'secret', 'X-Skip': undefined },
+      new JsonBody({ name: 'Blueprint' })
+    )
+
+    await expect(response.json()).resolves.toEqual({ id: 1 })
+
+    const har = await driver.getHar()
+    const entry = har.log.entries[0]!
+
+    expect(har.log.version).toBe('1.2')
+    expect(har.log.creator).toEqual({ name: 'tests', version: '1.0' })
+    expect(entry.request).toMatchObject({
+      method: 'POST',
+      url: 'https://example.com/projects?draft=1',
+      headers: [
+        { name: 'Accept', value: 'application/json' },
+        { name: 'X-Token', value: 'secret' },
+        { name: 'Content-Type', value: 'application/json' }
+      ],
+      queryString: [{ name: 'draft', value: '1' }],
+      postData: { mimeType: 'application/json', text: '{"name":"Blueprint"}' }
+    })
+    expect(entry.response).toMatchObject({
+      status: 201,
+      headers: expect.arrayContaining([{ name: 'x-request-id', value: 'abc' }]),
+      content: { size: 8, mimeType: 'application/json', text: '{"id":1}' }
+    })
+    expect(new Date(entry.startedDateTime).getTime()).not.toBeNaN()
+  })
+
+  it('records error responses and rethrows them', async () => {
+    const inner = new MockRequestDriver().expect({
+      method: RequestMethodEnum.POST,
+      url: 'https://example.com/projects',
+      response: validationError({ name: ['Required'] })
+    })
+    const driver = new RecordingRequestDriver(inner)
+
+    await expect(driver.send('https://example.com/projects', RequestMethodEnum.POST, {})).rejects.toBeInstanceOf(ResponseException)
+
+    const [entry] = (await driver.getHar()).log.entries
+
+    expect(entry?.response.status).toBe(422)
+    expect(JSON.parse(entry?.response.content.text ?? '')).toEqual({ message: 'The given data was invalid.', errors: { name: ['Required'] } })
+  })
+
+  it('encodes binary bodies as base64 and lists form fields', async () => {
+    const inner = new MockRequestDriver().expect({
+      method: RequestMethodEnum.POST,
+      url: 'https://example.com/upload',
+      response: { status: 200, headers: { 'Content-Type': 'application/octet-stream' }, body: new Uint8Array([0, 255]) }
+    })
+    const driver = new RecordingRequestDriver(inner)
+    const file = new File(['abc'], 'notes.txt', { type: 'text/plain' })
+
+    await driver.send('https://example.com/upload', RequestMethodEnum.POST, {}, new FormDataBody({ title: 'Notes', file }))
+
+    const [entry] = driver.getEntries()
+
+    expect(entry?.request.postData).toEqual({
+      mimeType: 'multipart/form-data',
+      params: [
+        { name: 'title', value: 'Notes' },
+        { name: 'file', fileName: 'notes.txt', contentType: 'text/plain' }
+      ]
+    })
+
+    await driver.getHar()
+
+    expect(entry?.response.content).toEqual({ size: 2, mimeType: 'application/octet-stream', text: 'AP8=', encoding: 'base64' })
+  })
+  it('redacts credential headers unless configured otherwise', async () => {
+    const inner = new MockRequestDriver()
+      .expect({
+        method: RequestMethodEnum.GET,
+        url: 'https://example.com/me',
+        response: jsonResponse(200, {}, { 'Set-Cookie': 'session=abc' }),
+      })
+      .expect({
+        method: RequestMethodEnum.GET,
+        url: 'https://example.com/me',
+        response: jsonResponse(200, {}, { 'Set-Cookie': 'session=abc' }),
+      })
+    const headers = { Authorization: 'Bearer secret', cookie: 'session=abc', 'X-XSRF-TOKEN': 'token', 'X-Tenant': 'acme' }
+
+    const driver = new RecordingRequestDriver(inner)
+    await driver.send('https://example.com/me', RequestMethodEnum.GET, headers)
+
+    const [entry] = (await driver.getHar()).log.entries
+
+    expect(entry?.request.headers).toEqual([
+      { name: 'Authorization', value: '[REDACTED]' },
+      { name: 'cookie', value: '[REDACTED]' },
+      { name: 'X-XSRF-TOKEN', value: '[REDACTED]' },
+      { name: 'X-Tenant', value: 'acme' },
+    ])
+    expect(entry?.response.headers).toContainEqual({ name: 'set-cookie', value: '[REDACTED]' })
+
+    const unredacted = new RecordingRequestDriver(inner, { redactHeaders: ['X-Tenant'] })
+    await unredacted.send('https://example.com/me', RequestMethodEnum.GET, headers)
+
+    const [raw] = (await unredacted.getHar()).log.entries
+
+    expect(raw?.request.headers).toContainEqual({ name: 'Authorization', value: 'Bearer secret' })
+    expect(raw?.request.headers).toContainEqual({ name: 'X-Tenant', value: '[REDACTED]' })
+  })
+})
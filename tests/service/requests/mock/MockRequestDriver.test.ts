@@ -1,4 +1,4 @@
-import { beforeEach, describe, expect, it } from 'vitest'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
 import {
   BaseRequest,
   ErrorHandler,
@@ -7,9 +7,15 @@ import {
   MockRequestAssertionError,
   MockRequestDriver,
   PlainTextResponse,
+  RequestConcurrencyMode,
+  RequestEvents,
   RequestMethodEnum,
+  UrlEncodedBody,
+  abortedRequest,
   emptyResponse,
+  expectFormBody,
   expectJsonBody,
+  getMockRequestFormBody,
   getMockRequestJsonBody,
   getMockRequestQuery,
   getMockRequestTextBody,
@@ -17,10 +23,18 @@ import {
   jsonResponse,
   matchHeaders,
   matchQuery,
+  networkError,
+  noResponse,
   resetMockRequestDriver,
+  timeoutError,
+  uploadProgress,
   validationError,
 } from '../../../../src/requests'
 import { ValidationException } from '../../../../src/requests/exceptions/ValidationException'
+import { RequestAbortedException } from '../../../../src/requests/exceptions/RequestAbortedException'
+import { NetworkException } from '../../../../src/requests/exceptions/NetworkException'
+import { TimeoutException } from '../../../../src/requests/exceptions/TimeoutException'
+import type { RequestUploadProgress } from '../../../../src/requests/types/RequestUploadProgress'
 import type { BodyContent, BodyContract } from '../../../../src/requests/contracts/BodyContract'
 
 const createBody = (content: BodyContent, headers: Record<string, string> = { 'Content-Type': 'application/json' }): BodyContract => ({
@@ -421,6 +435,255 @@ describe('MockRequestDriver', () => {
     })
   })
 
+  it('normalizes and matches URL-encoded bodies', async () => {
+    const body = new UrlEncodedBody({ grant_type: 'password', scope: ['read', 'write'] }, { arrayFormat: 'repeat' })
+    const driver = new MockRequestDriver()
+      .expect({
+        method: RequestMethodEnum.POST,
+        url: 'https://example.com/oauth/token',
+        body: { grant_type: 'password', scope: ['read', 'write'] },
+        response: emptyResponse(),
+      })
+      .expect({
+        method: RequestMethodEnum.POST,
+        url: 'https://example.com/oauth/token',
+        body: new URLSearchParams('grant_type=password&scope=read&scope=write'),
+        response: emptyResponse(),
+      })
+
+    driver
+      .expectAny({ method: RequestMethodEnum.POST, url: 'https://example.com/oauth/token' })
+      .withBody(expectFormBody({ grant_type: 'password' }, { partial: true }))
+      .respond(emptyResponse())
+
+    for (let i = 0; i < 3; i++) {
+      await driver.send('https://example.com/oauth/token', RequestMethodEnum.POST, {}, body)
+    }
+
+    expect(driver.getHistory()[0]?.body).toEqual({
+      kind: 'url-encoded',
+      value: 'grant_type=password&scope=read&scope=write',
+      fields: { grant_type: 'password', scope: ['read', 'write'] },
+    })
+    expect(getMockRequestFormBody(driver.getHistory()[0]!)).toEqual({ grant_type: 'password', scope: ['read', 'write'] })
+    expect(() => driver.assertExpectationsMet()).not.toThrow()
+  })
+
+  it('renders form field diffs for URL-encoded mismatches', async () => {
+    const driver = new MockRequestDriver().expect({
+      method: RequestMethodEnum.POST,
+      url: 'https://example.com/oauth/token',
+      body: { grant_type: 'client_credentials' },
+      response: emptyResponse(),
+    })
+
+    const error = await driver
+      .send('https://example.com/oauth/token', RequestMethodEnum.POST, {}, new UrlEncodedBody({ grant_type: 'password' }))
+      .catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(MockRequestAssertionError)
+    expect(error.message).toContain('Form body did not match.')
+    expect(error.message).toContain('Differing JSON paths: grant_type')
+  })
+
+  it('matches expectations the configured number of times', async () => {
+    const driver = new MockRequestDriver()
+      .expect({ method: RequestMethodEnum.GET, url: 'https://example.com/status', times: 2, response: jsonResponse(200, { state: 'pending' }) })
+      .expect({ method: RequestMethodEnum.GET, url: 'https://example.com/status', response: jsonResponse(200, { state: 'done' }) })
+
+    const states = []
+
+    for (let i = 0; i < 3; i++) {
+      const response = await driver.send('https://example.com/status', RequestMethodEnum.GET, {})
+      states.push((await response.json<{ state: string }>()).state)
+    }
+
+    expect(states).toEqual(['pending', 'pending', 'done'])
+    await expect(driver.send('https://example.com/status', RequestMethodEnum.GET, {})).rejects.toBeInstanceOf(MockRequestAssertionError)
+  })
+
+  it('passes over satisfied open-ended expectations in ordered mode', async () => {
+    const driver = new MockRequestDriver()
+
+    driver.expectAny({ method: RequestMethodEnum.GET, url: 'https://example.com/poll' }).atLeast(1).respond(emptyResponse())
+    driver.expectAny({ method: RequestMethodEnum.POST, url: 'https://example.com/save' }).respond(emptyResponse())
+
+    await expect(driver.send('https://example.com/save', RequestMethodEnum.POST, {})).rejects.toThrow('Mock request method mismatch.')
+
+    await driver.send('https://example.com/poll', RequestMethodEnum.GET, {})
+    await driver.send('https://example.com/poll', RequestMethodEnum.GET, {})
+    await driver.send('https://example.com/save', RequestMethodEnum.POST, {})
+    await driver.send('https://example.com/poll', RequestMethodEnum.GET, {})
+
+    expect(() => driver.assertExpectationsMet()).not.toThrow()
+  })
+
+  it('reports unmet call counts in assertExpectationsMet', async () => {
+    const driver = new MockRequestDriver()
+
+    driver.expectAny({ method: RequestMethodEnum.GET, url: 'https://example.com/poll' }).atLeast(3).respond(emptyResponse())
+    driver.expectAny({ method: RequestMethodEnum.GET, url: 'https://example.com/optional' }).always().respond(emptyResponse())
+
+    await driver.send('https://example.com/poll', RequestMethodEnum.GET, {})
+
+    expect(() => driver.assertExpectationsMet()).toThrow(
+      ['Expected 2 more mocked request(s).', 'Match mode: ordered', 'Next expected request: GET https://example.com/poll (matched 1 of at least 3 time(s))'].join('\n')
+    )
+
+    await driver.send('https://example.com/poll', RequestMethodEnum.GET, {})
+    await driver.send('https://example.com/poll', RequestMethodEnum.GET, {})
+
+    expect(() => driver.assertExpectationsMet()).not.toThrow()
+  })
+
+  it('answers unmatched requests with the fallback response', async () => {
+    const driver = new MockRequestDriver(undefined, [], { matchMode: 'unordered' })
+      .expect({ method: RequestMethodEnum.GET, url: 'https://example.com/me', response: jsonResponse(200, { id: 1 }) })
+      .fallback(jsonResponse(200, { data: [] }))
+
+    const other = await driver.send('https://example.com/projects', RequestMethodEnum.GET, {})
+    const me = await driver.send('https://example.com/me', RequestMethodEnum.GET, {})
+
+    await expect(other.json()).resolves.toEqual({ data: [] })
+    await expect(me.json()).resolves.toEqual({ id: 1 })
+    expect(driver.getHistory().map((entry) => entry.url)).toEqual(['https://example.com/projects', 'https://example.com/me'])
+    expect(() => driver.assertExpectationsMet()).not.toThrow()
+
+    driver.reset()
+
+    await expect(driver.send('https://example.com/projects', RequestMethodEnum.GET, {})).rejects.toBeInstanceOf(MockRequestAssertionError)
+  })
+
+  it('gives concurrent requests their own single-use expectations', async () => {
+    const driver = new MockRequestDriver()
+
+    driver.expectAny({ method: RequestMethodEnum.GET, url: 'https://example.com/a' }).respond(jsonResponse(200, { call: 1 }))
+    driver.expectAny({ method: RequestMethodEnum.GET, url: 'https://example.com/a' }).respond(jsonResponse(200, { call: 2 }))
+    driver.expectAny({ method: RequestMethodEnum.GET, url: 'https://example.com/b' }).respond(jsonResponse(200, { call: 3 }))
+
+    const responses = await Promise.all([
+      driver.send('https://example.com/a', RequestMethodEnum.GET, {}),
+      driver.send('https://example.com/a', RequestMethodEnum.GET, {}),
+    ])
+    const last = await driver.send('https://example.com/b', RequestMethodEnum.GET, {})
+
+    await expect(Promise.all(responses.map((response) => response.json()))).resolves.toEqual([{ call: 1 }, { call: 2 }])
+    await expect(last.json()).resolves.toEqual({ call: 3 })
+    expect(() => driver.assertExpectationsMet()).not.toThrow()
+  })
+
+  it('builds responses from the normalized request with response factories', async () => {
+    const driver = new MockRequestDriver()
+
+    driver
+      .expectAny({ method: RequestMethodEnum.POST, url: (url) => url.pathname === '/mock' })
+      .times(2)
+      .respond(async (request) => jsonResponse(201, { ...request.getJson<object>(), filter: request.getQuery()['filter'] }))
+
+    const first = await new MockJsonRequest().setRequestDriver(driver).setParams({ filter: 'active' }).setBody({ name: 'Ada' }).send()
+    const second = await new MockJsonRequest().setRequestDriver(driver).setBody({ name: 'Grace' }).send()
+
+    expect(first.getBody()).toEqual({ name: 'Ada', filter: 'active' })
+    expect(second.getBody()).toEqual({ name: 'Grace' })
+  })
+
+  it('delays responses and rejects when aborted mid-flight', async () => {
+    const driver = new MockRequestDriver()
+
+    driver.expectAny({ method: RequestMethodEnum.GET, url: 'https://example.com/slow' }).delay(20).always().respond(emptyResponse())
+
+    const startedAt = Date.now()
+    await driver.send('https://example.com/slow', RequestMethodEnum.GET, {})
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(15)
+
+    const controller = new AbortController()
+    const pending = driver.send('https://example.com/slow', RequestMethodEnum.GET, {}, undefined, { abortSignal: controller.signal })
+
+    controller.abort()
+
+    await expect(pending).rejects.toBeInstanceOf(RequestAbortedException)
+  })
+
+  it('simulates REPLACE races with delayed responses', async () => {
+    const driver = new MockRequestDriver()
+
+    driver
+      .expectAny({ method: RequestMethodEnum.POST, url: 'https://example.com/mock' })
+      .times(2)
+      .delay(20)
+      .respond((request) => jsonResponse(200, { ok: request.getJson<{ name: string }>()?.name === 'second' }))
+
+    const request = new MockJsonRequest().setRequestDriver(driver).setConcurrency({ mode: RequestConcurrencyMode.REPLACE, key: 'mock-replace' })
+
+    const first = request.setBody({ name: 'first' }).send()
+    const second = request.setBody({ name: 'second' }).send()
+
+    await expect(first).rejects.toMatchObject({ name: 'AbortError' })
+    expect((await second).getBody()).toEqual({ ok: true })
+  })
+
+  it('simulates transport failures', async () => {
+    const driver = new MockRequestDriver({ timeout: 5000 })
+      .expect({ method: RequestMethodEnum.GET, url: 'https://example.com/a', response: networkError() })
+      .expect({ method: RequestMethodEnum.GET, url: 'https://example.com/b', response: noResponse() })
+      .expect({ method: RequestMethodEnum.GET, url: 'https://example.com/c', response: timeoutError() })
+      .expect({ method: RequestMethodEnum.GET, url: 'https://example.com/d', delay: 10, response: abortedRequest() })
+
+    await expect(driver.send('https://example.com/a', RequestMethodEnum.GET, {})).rejects.toBeInstanceOf(NetworkException)
+    await expect(driver.send('https://example.com/b', RequestMethodEnum.GET, {})).rejects.toThrow('No response received.')
+
+    const timeout = await driver.send('https://example.com/c', RequestMethodEnum.GET, {}, undefined, { timeout: 250 }).catch((error) => error)
+    expect(timeout).toBeInstanceOf(TimeoutException)
+    expect(timeout.getTimeout()).toBe(250)
+
+    await expect(driver.send('https://example.com/d', RequestMethodEnum.GET, {})).rejects.toBeInstanceOf(RequestAbortedException)
+    expect(driver.getHistory()).toHaveLength(4)
+  })
+
+  it('passes network failures through BaseRequest untouched', async () => {
+    const driver = new MockRequestDriver().expect({ method: RequestMethodEnum.GET, url: 'https://example.com/text', response: networkError() })
+
+    await expect(new MockTextRequest().setRequestDriver(driver).send()).rejects.toBeInstanceOf(NetworkException)
+  })
+
+  it('reports scripted upload progress through request events', async () => {
+    const driver = new MockRequestDriver()
+
+    driver
+      .expectAny({ method: RequestMethodEnum.POST, url: 'https://example.com/mock' })
+      .withUploadProgress(uploadProgress(200, [50, 200]))
+      .respond(jsonResponse(200, { ok: true }))
+
+    const events: RequestUploadProgress[] = []
+
+    await new MockJsonRequest()
+      .setRequestDriver(driver)
+      .on<RequestUploadProgress>(RequestEvents.UPLOAD_PROGRESS, (progress) => events.push(progress))
+      .setBody({ name: 'Ada' })
+      .send()
+
+    expect(events).toEqual([
+      { loaded: 50, total: 200, lengthComputable: true, progress: 0.25 },
+      { loaded: 200, total: 200, lengthComputable: true, progress: 1 },
+    ])
+  })
+
+  it('stops an upload when aborted partway through', async () => {
+    const controller = new AbortController()
+    const onUploadProgress = vi.fn(() => controller.abort())
+    const driver = new MockRequestDriver().expect({
+      method: RequestMethodEnum.POST,
+      url: 'https://example.com/upload',
+      uploadProgress: uploadProgress(100, [10, 50, 100]),
+      response: emptyResponse(),
+    })
+
+    await expect(
+      driver.send('https://example.com/upload', RequestMethodEnum.POST, {}, undefined, { abortSignal: controller.signal, onUploadProgress })
+    ).rejects.toBeInstanceOf(RequestAbortedException)
+    expect(onUploadProgress).toHaveBeenCalledTimes(1)
+  })
+
   it('still fails immediately for unexpected requests', async () => {
     const driver = new MockRequestDriver()
 
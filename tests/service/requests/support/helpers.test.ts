@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest'
+import { findHeader, resolveHeaders, wait } from '../../../../src/requests/support/helpers'
+import { RequestAbortedException } from '../../../../src/requests/exceptions/RequestAbortedException'
+
+describe('request support helpers', () => {
+  it('waits for the given delay', async () => {
+    vi.useFakeTimers()
+
+    let resolved = false
+    const promise = wait(100).then(() => {
+      resolved = true
+    })
+
+    await vi.advanceTimersByTimeAsync(99)
+    expect(resolved).toBe(false)
+
+    await vi.advanceTimersByTimeAsync(1)
+    await promise
+    expect(resolved).toBe(true)
+
+    vi.useRealTimers()
+  })
+
+  it('rejects with a RequestAbortedException when the signal aborts', async () => {
+    const controller = new AbortController()
+    const promise = wait(10_000, controller.signal)
+
+    controller.abort()
+
+    await expect(promise).rejects.toBeInstanceOf(RequestAbortedException)
+    await expect(wait(0, controller.signal)).rejects.toBeInstanceOf(RequestAbortedException)
+  })
+  it('resolves header values and finds headers regardless of case', () => {
+    const headers = resolveHeaders({ 'Content-Type': 'application/json', 'X-Token': () => 'secret', 'X-Skip': undefined as unknown as string })
+
+    expect(headers).toEqual({ 'Content-Type': 'application/json', 'X-Token': 'secret' })
+    expect(findHeader(headers, 'content-type')).toBe('application/json')
+    expect(findHeader(headers, 'X-TOKEN')).toBe('secret')
+    expect(findHeader(headers, 'accept')).toBeUndefined()
+  })
+})
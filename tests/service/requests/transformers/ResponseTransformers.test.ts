@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { JsonResponse } from '../../../../src/requests/responses/JsonResponse'
+import { CamelCaseKeysTransformer } from '../../../../src/requests/transformers/CamelCaseKeysTransformer'
+import { DateRevivingTransformer } from '../../../../src/requests/transformers/DateRevivingTransformer'
+import { ClassHydrationTransformer } from '../../../../src/requests/transformers/ClassHydrationTransformer'
+import { MapItemsTransformer } from '../../../../src/requests/transformers/MapItemsTransformer'
+import { FetchResponse } from '../../../../src/requests/drivers/fetch/FetchResponse'
+
+interface ProjectData {
+  id: number
+  created_at: string
+  owner_user: { first_name: string; deleted_at: string | null }
+  member_ids: number[]
+}
+
+class Project {
+  public constructor(public data: { id: number; createdAt: Date; ownerUser: { firstName: string; deletedAt: Date | null }; memberIds: number[] }) {}
+}
+
+const projectData: ProjectData = {
+  id: 1,
+  created_at: '2026-10-19T08:00:00Z',
+  owner_user: { first_name: 'Sam', deleted_at: null },
+  member_ids: [1, 2]
+}
+
+describe('Response transformers', () => {
+  it('converts keys to camelCase deeply', () => {
+    const transformed = new CamelCaseKeysTransformer<{ items: ProjectData[] }>().transform({ items: [projectData] })
+
+    expect(transformed).toEqual({
+      items: [{ id: 1, createdAt: '2026-10-19T08:00:00Z', ownerUser: { firstName: 'Sam', deletedAt: null }, memberIds: [1, 2] }]
+    })
+  })
+
+  it('revives the configured date keys only', () => {
+    const transformed = new DateRevivingTransformer<{ created_at: string; name: string; nested: { deleted_at: string | null } }, 'created_at' | 'deleted_at'>([
+      'created_at',
+      'deleted_at'
+    ]).transform({ created_at: '2026-10-19T08:00:00Z', name: '2026-10-19', nested: { deleted_at: null } })
+
+    expect(transformed.created_at).toEqual(new Date('2026-10-19T08:00:00Z'))
+    expect(transformed.name).toBe('2026-10-19')
+    expect(transformed.nested.deleted_at).toBeNull()
+  })
+
+  it('chains transformers on JsonResponse', async () => {
+    const response = new JsonResponse<ProjectData>()
+      .transform(new CamelCaseKeysTransformer())
+      .transform(new DateRevivingTransformer(['createdAt', 'deletedAt']))
+      .transform(new ClassHydrationTransformer(Project))
+
+    await response.setResponse(new FetchResponse(new Response(JSON.stringify(projectData))))
+
+    expect(response.getBody()).toBeInstanceOf(Project)
+    expect(response.getBody().data.createdAt).toEqual(new Date('2026-10-19T08:00:00Z'))
+    expect(response.getBody().data.ownerUser.firstName).toBe('Sam')
+  })
+
+  it('maps array items with async transformers', async () => {
+    const response = new JsonResponse<number[]>().transform(new MapItemsTransformer(async (id: number) => `project-${id}`))
+
+    await response.setResponse(new FetchResponse(new Response('[1,2]')))
+
+    expect(response.getBody()).toEqual(['project-1', 'project-2'])
+  })
+})
@@ -3,6 +3,9 @@ import { XMLHttpRequestDriver } from '../../../../src/requests/drivers/xhr/XMLHt
 import { XMLHttpRequestResponse } from '../../../../src/requests/drivers/xhr/XMLHttpRequestResponse'
 import { RequestMethodEnum } from '../../../../src/requests/RequestMethod.enum'
 import { ResponseException } from '../../../../src/requests/exceptions/ResponseException'
+import { TimeoutException } from '../../../../src/requests/exceptions/TimeoutException'
+import { NetworkException } from '../../../../src/requests/exceptions/NetworkException'
+import { RequestAbortedException } from '../../../../src/requests/exceptions/RequestAbortedException'
 import type { BodyContent, BodyContract } from '../../../../src/requests/contracts/BodyContract'
 
 const createBody = (content: BodyContent, headers: Record<string, string> = { 'Content-Type': 'application/json' }): BodyContract => ({
@@ -28,6 +31,9 @@ class MockXMLHttpRequest {
   public onload: (() => void) | null = null
   public onerror: (() => void) | null = null
   public onabort: (() => void) | null = null
+  public ontimeout: (() => void) | null = null
+  public onprogress: ((event: ProgressEvent<EventTarget>) => void) | null = null
+  public timeout = 0
   public upload = new MockXMLHttpRequestUpload()
   public headers: Record<string, string> = {}
   public responseHeaders: Record<string, string> = {}
@@ -67,6 +73,18 @@ class MockXMLHttpRequest {
     this.onload?.()
   }
 
+  public triggerDownloadProgress(loaded: number, total: number, lengthComputable: boolean = true): void {
+    this.onprogress?.({
+      loaded,
+      total,
+      lengthComputable,
+    } as ProgressEvent<EventTarget>)
+  }
+
+  public triggerTimeout(): void {
+    this.ontimeout?.()
+  }
+
   public triggerError(): void {
     this.onerror?.()
   }
@@ -194,6 +212,65 @@ describe('XMLHttpRequestDriver', () => {
     controller.abort()
 
     await expect(promise).rejects.toMatchObject({ name: 'AbortError' })
+    await expect(promise).rejects.toBeInstanceOf(RequestAbortedException)
     expect(request.aborted).toBe(true)
   })
+
+  it('rejects without opening a request when the AbortSignal is already aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    const promise = new XMLHttpRequestDriver().send('https://example.com', RequestMethodEnum.GET, {}, undefined, { abortSignal: controller.signal })
+
+    await expect(promise).rejects.toBeInstanceOf(RequestAbortedException)
+    expect(MockXMLHttpRequest.instances).toHaveLength(0)
+  })
+
+  it('rejects with NetworkException when the request fails or receives no response', async () => {
+    const driver = new XMLHttpRequestDriver()
+
+    const failed = driver.send('https://example.com', RequestMethodEnum.GET, {})
+    MockXMLHttpRequest.instances[0].triggerError()
+
+    await expect(failed).rejects.toBeInstanceOf(NetworkException)
+
+    const empty = driver.send('https://example.com', RequestMethodEnum.GET, {})
+    const request = MockXMLHttpRequest.instances[1]
+    request.status = 0
+    request.triggerLoad()
+
+    await expect(empty).rejects.toThrow(new NetworkException('No response received.'))
+  })
+
+  it('forwards download progress events', async () => {
+    const onDownloadProgress = vi.fn()
+    const driver = new XMLHttpRequestDriver()
+
+    const promise = driver.send('https://example.com', RequestMethodEnum.GET, {}, undefined, { onDownloadProgress })
+
+    const request = MockXMLHttpRequest.instances[0]
+    request.triggerDownloadProgress(25, 100)
+    request.triggerDownloadProgress(40, 0, false)
+    request.triggerLoad()
+
+    await promise
+
+    expect(onDownloadProgress).toHaveBeenNthCalledWith(1, { loaded: 25, total: 100, lengthComputable: true, progress: 0.25 })
+    expect(onDownloadProgress).toHaveBeenNthCalledWith(2, { loaded: 40, total: undefined, lengthComputable: false, progress: undefined })
+    expect(request.onprogress).toBeNull()
+  })
+
+  it('applies the request timeout and rejects with TimeoutException', async () => {
+    const driver = new XMLHttpRequestDriver({ timeout: 5000 })
+
+    const promise = driver.send('https://example.com', RequestMethodEnum.GET, {}, undefined, { timeout: 250 })
+
+    const request = MockXMLHttpRequest.instances[0]
+    expect(request.timeout).toBe(250)
+
+    request.triggerTimeout()
+
+    await expect(promise).rejects.toBeInstanceOf(TimeoutException)
+    await expect(promise).rejects.toMatchObject({ name: 'TimeoutException' })
+  })
 })
@@ -1,5 +1,5 @@
 import { beforeEach, describe, expect, it } from 'vitest'
-import { getCookie, getDisplayablePages, isAtBottom, isObject } from '../../../src/support/helpers'
+import { getCookie, getDisplayablePages, isAtBottom, isObject, isPlainObject, toCamelCase, toSnakeCase } from '../../../src/support/helpers'
 
 describe('support helpers', () => {
   beforeEach(() => {
@@ -34,4 +34,24 @@ describe('support helpers', () => {
     expect(isAtBottom(100, 97, 3)).toBe(true)
     expect(isAtBottom(100, 90, 3)).toBe(false)
   })
+
+  it('converts snake_case to camelCase', () => {
+    expect(toCamelCase('created_at')).toBe('createdAt')
+    expect(toCamelCase('line_2_total')).toBe('line2Total')
+    expect(toCamelCase('alreadyCamel')).toBe('alreadyCamel')
+  })
+
+  it('converts camelCase to snake_case', () => {
+    expect(toSnakeCase('createdAt')).toBe('created_at')
+    expect(toSnakeCase('userID')).toBe('user_id')
+    expect(toSnakeCase('HTMLParser')).toBe('html_parser')
+    expect(toSnakeCase('already_snake')).toBe('already_snake')
+  })
+
+  it('detects plain objects only', () => {
+    expect(isPlainObject({ a: 1 })).toBe(true)
+    expect(isPlainObject(Object.create(null))).toBe(true)
+    expect(isPlainObject(new Date())).toBe(false)
+    expect(isPlainObject([])).toBe(false)
+  })
 })